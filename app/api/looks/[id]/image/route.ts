@@ -0,0 +1,16 @@
+import { getSharedLook, getSharedLookImage } from "@/lib/looks/shared-store"
+
+// Serves a shared look's result image. Shared looks never change, so it is cached for good.
+
+export const runtime = "nodejs"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const [look, image] = await Promise.all([getSharedLook(id), getSharedLookImage(id)])
+  if (!look || !image) {
+    return new Response("Not found", { status: 404 })
+  }
+  return new Response(new Uint8Array(image), {
+    headers: { "Content-Type": look.imageType, "Cache-Control": "public, max-age=31536000, immutable" },
+  })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import type { SharedLook } from "@/lib/looks/schema"
+import { getSharedLook } from "@/lib/looks/shared-store"
+import type { TryOnApiError } from "@/lib/try-on/api"
+
+// Returns a shared look's manicure, for opening it in the try-on
+
+export const runtime = "nodejs"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const look = await getSharedLook(id)
+  if (!look) {
+    return NextResponse.json<TryOnApiError>(
+      { error: "This look doesn't exist or is no longer shared" },
+      { status: 404 },
+    )
+  }
+  return NextResponse.json<SharedLook>(look, { headers: { "Cache-Control": "public, max-age=31536000, immutable" } })
+}
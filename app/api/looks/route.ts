@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server"
+import { getDesign } from "@/lib/designs/registry"
+import { HAND_SIDES } from "@/lib/handedness"
+import { sharedLookInputSchema, sharedLookSchema, type SharedLook } from "@/lib/looks/schema"
+import {
+  getSharedLookPath,
+  SHARED_LOOK_MAX_IMAGE_BYTES,
+  SHARED_LOOK_MAX_IMAGE_PIXELS,
+  SHARED_LOOK_MAX_LOOK_LENGTH,
+  SHARED_LOOK_MAX_TEXTURE_PIXELS,
+  type ShareLookResponse,
+} from "@/lib/looks/share"
+import { hasRoomForSharedLook, saveSharedLook } from "@/lib/looks/shared-store"
+import { FINGERS } from "@/lib/manicure"
+import type { TryOnApiError } from "@/lib/try-on/api"
+import { readImageSize } from "@/lib/try-on/image-size"
+import { decodeImage } from "@/lib/try-on/node-canvas"
+
+// Stores a look so it can be shared as a link.
+//
+// Expects multipart/form-data with:
+//   image  the try-on result (JPEG, PNG or WebP)
+//   look   JSON { manicures, nailShape, customDesigns }, where customDesigns are the
+//          designs the manicure uses that aren't in the catalog
+
+export const runtime = "nodejs"
+
+// Multipart boundaries and headers around the two fields
+const FORM_OVERHEAD_BYTES = 64 * 1024
+const MAX_BODY_BYTES = SHARED_LOOK_MAX_IMAGE_BYTES + SHARED_LOOK_MAX_LOOK_LENGTH + FORM_OVERHEAD_BYTES
+
+function errorResponse(status: number, error: string, issues?: string[]) {
+  return NextResponse.json<TryOnApiError>({ error, issues }, { status })
+}
+
+// Decoding only confirms an image is real, after its header has shown it is small enough to decode
+async function isDecodable(data: Buffer): Promise<boolean> {
+  try {
+    await decodeImage(data)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function POST(request: Request) {
+  // The body is only parsed once its size is known to be within limits
+  const contentLength = Number(request.headers.get("content-length"))
+  if (!contentLength) {
+    return errorResponse(411, "Requests need a Content-Length header")
+  }
+  if (contentLength > MAX_BODY_BYTES) {
+    return errorResponse(413, `Requests must be smaller than ${Math.floor(MAX_BODY_BYTES / (1024 * 1024))} MB`)
+  }
+  try {
+    if (!(await hasRoomForSharedLook())) {
+      return errorResponse(507, "No room for more shared looks. Please try again later.")
+    }
+  } catch (err) {
+    console.error("Error checking shared look storage:", err)
+    return errorResponse(500, "Failed to save the look")
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return errorResponse(400, "Expected a multipart/form-data body")
+  }
+
+  const file = form.get("image")
+  if (!(file instanceof Blob) || file.size === 0) {
+    return errorResponse(400, 'Missing "image" file')
+  }
+  if (file.size > SHARED_LOOK_MAX_IMAGE_BYTES) {
+    return errorResponse(413, `Images must be smaller than ${SHARED_LOOK_MAX_IMAGE_BYTES / (1024 * 1024)} MB`)
+  }
+  const imageType = sharedLookSchema.shape.imageType.safeParse(file.type)
+  if (!imageType.success) {
+    return errorResponse(415, "Images must be JPEG, PNG or WebP")
+  }
+
+  const lookField = form.get("look")
+  if (typeof lookField === "string" && lookField.length > SHARED_LOOK_MAX_LOOK_LENGTH) {
+    return errorResponse(413, `"look" must be smaller than ${SHARED_LOOK_MAX_LOOK_LENGTH / (1024 * 1024)} MB`)
+  }
+  let lookInput: unknown
+  try {
+    lookInput = JSON.parse(typeof lookField === "string" ? lookField : "")
+  } catch {
+    return errorResponse(400, 'Missing or invalid "look" JSON')
+  }
+  const look = sharedLookInputSchema.safeParse(lookInput)
+  if (!look.success) {
+    return errorResponse(
+      400,
+      'Invalid "look"',
+      look.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    )
+  }
+
+  const { manicures } = look.data
+  // Custom designs stand in for catalog designs wherever looks are opened, so they can't share an ID
+  const catalogIds = look.data.customDesigns.filter((design) => getDesign(design.id)).map((design) => design.id)
+  if (catalogIds.length > 0) {
+    return errorResponse(400, `Custom designs can't use catalog design IDs: ${catalogIds.join(", ")}`)
+  }
+  const usedIds = new Set(HAND_SIDES.flatMap((side) => FINGERS.map((finger) => manicures[side][finger])))
+  const unknownIds = Array.from(usedIds).filter(
+    (id) => !getDesign(id) && !look.data.customDesigns.some((design) => design.id === id),
+  )
+  if (unknownIds.length > 0) {
+    return errorResponse(400, `Unknown design: ${unknownIds.join(", ")}`)
+  }
+  // Only the custom designs the manicure wears are kept
+  const customDesigns = look.data.customDesigns.filter((design) => usedIds.has(design.id))
+
+  const data = Buffer.from(await file.arrayBuffer())
+  const image = readImageSize(data)
+  if (!image) {
+    return errorResponse(415, "Could not read the image. Use JPEG, PNG or WebP.")
+  }
+  if (image.width * image.height > SHARED_LOOK_MAX_IMAGE_PIXELS) {
+    return errorResponse(413, `Images can't be over ${SHARED_LOOK_MAX_IMAGE_PIXELS / 1_000_000} megapixels`)
+  }
+  // Only real images are stored, since anyone with the link is served the file
+  if (!(await isDecodable(data))) {
+    return errorResponse(415, "Could not decode the image. Use JPEG, PNG or WebP.")
+  }
+
+  // Textures are decoded by everyone who opens the look, so they are checked like the image
+  for (const design of customDesigns) {
+    if (!design.texture) continue
+    const textureData = Buffer.from(design.texture.split(",")[1], "base64")
+    const texture = readImageSize(textureData)
+    if (!texture) {
+      return errorResponse(400, `Could not read the texture of "${design.name}"`)
+    }
+    if (texture.width * texture.height > SHARED_LOOK_MAX_TEXTURE_PIXELS) {
+      return errorResponse(413, `The texture of "${design.name}" is too large`)
+    }
+    if (!(await isDecodable(textureData))) {
+      return errorResponse(400, `Could not decode the texture of "${design.name}"`)
+    }
+  }
+
+  let shared: SharedLook
+  try {
+    shared = await saveSharedLook(
+      {
+        ...look.data,
+        customDesigns,
+        imageType: imageType.data,
+        imageWidth: image.width,
+        imageHeight: image.height,
+      },
+      data,
+    )
+  } catch (err) {
+    console.error("Error saving shared look:", err)
+    return errorResponse(500, "Failed to save the look")
+  }
+
+  return NextResponse.json<ShareLookResponse>(
+    { id: shared.id, url: getSharedLookPath(shared.id) },
+    { status: 201 },
+  )
+}
@@ -0,0 +1,201 @@
+import { NextResponse } from "next/server"
+import type { ZodError } from "zod"
+import { renderDesign } from "@/lib/designs/render"
+import { getDesign, getDesignTexture } from "@/lib/designs/registry"
+import { nailDesignSchema, nailShapeSchema, type NailDesign, type NailShapeOptions } from "@/lib/designs/schema"
+import { HAND_SIDES } from "@/lib/handedness"
+import { createUniformHandManicures, FINGERS, type HandManicures } from "@/lib/manicure"
+import {
+  handManicuresSchema,
+  TRY_ON_MAX_IMAGE_BYTES,
+  TRY_ON_MAX_IMAGE_PIXELS,
+  tryOnHandsSchema,
+  type TryOnApiError,
+  type TryOnApiResponse,
+} from "@/lib/try-on/api"
+import type { TryOnImageSource } from "@/lib/try-on/canvas"
+import { readImageSize, type ImageSize } from "@/lib/try-on/image-size"
+import { decodeImage, encodePng, installNodeCanvas } from "@/lib/try-on/node-canvas"
+import { renderTryOn } from "@/lib/try-on/render"
+
+// Renders try-on previews for integrations, with the same pipeline the app uses.
+//
+// The route doesn't detect hands: MediaPipe Hands only runs in browsers, so callers detect
+// them client-side, as the app does, and send the landmarks with the photo. The response's
+// `hands` are those landmarks after validation; its `nails` are worked out here.
+//
+// Expects multipart/form-data with:
+//   image     the photo (JPEG, PNG or WebP), up to 15 MB and 40 megapixels
+//   hands     required JSON array of the hands detected in the photo ({ side, score, landmarks })
+//   design    a catalog design ID, or a JSON design spec, which may carry a `texture` image
+//   manicure  optional JSON { left, right } of per-finger design IDs; defaults to `design`
+//             on every nail. IDs may refer to the catalog or to the `design` spec.
+//   shape     optional JSON { shape, length } for every nail, e.g. to preview extensions;
+//             defaults to each design's own shape
+
+export const runtime = "nodejs"
+
+installNodeCanvas()
+
+function errorResponse(status: number, error: string, issues?: string[]) {
+  return NextResponse.json<TryOnApiError>({ error, issues }, { status })
+}
+
+function formatIssues(err: ZodError): string[] {
+  return err.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+}
+
+// Checked against the file header before decoding, since a small file can decode to a huge bitmap
+function hasTooManyPixels(size: ImageSize): boolean {
+  return size.width * size.height > TRY_ON_MAX_IMAGE_PIXELS
+}
+
+// JSON fields may be sent as plain values or as attached .json files
+async function parseJsonField(form: FormData, name: string): Promise<unknown> {
+  const value = form.get(name)
+  if (value === null) return undefined
+  try {
+    return JSON.parse(typeof value === "string" ? value : await value.text())
+  } catch {
+    throw new Error(`"${name}" is not valid JSON`)
+  }
+}
+
+export async function POST(request: Request) {
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return errorResponse(400, "Expected a multipart/form-data body")
+  }
+
+  const file = form.get("image")
+  if (!(file instanceof Blob) || file.size === 0) {
+    return errorResponse(400, 'Missing "image" file')
+  }
+  if (file.size > TRY_ON_MAX_IMAGE_BYTES) {
+    return errorResponse(413, `Images must be smaller than ${TRY_ON_MAX_IMAGE_BYTES / (1024 * 1024)} MB`)
+  }
+
+  let handsInput: unknown
+  let manicureInput: unknown
+  let shapeInput: unknown
+  try {
+    handsInput = await parseJsonField(form, "hands")
+    manicureInput = await parseJsonField(form, "manicure")
+    shapeInput = await parseJsonField(form, "shape")
+  } catch (err) {
+    return errorResponse(400, (err as Error).message)
+  }
+
+  if (handsInput === undefined) {
+    return errorResponse(400, 'Missing "hands". Detect them in the browser with MediaPipe Hands and send them.')
+  }
+  const hands = tryOnHandsSchema.safeParse(handsInput)
+  if (!hands.success) {
+    return errorResponse(400, 'Invalid "hands"', formatIssues(hands.error))
+  }
+
+  // The design is either a catalog ID or a full spec, which is rendered without being registered
+  let customDesign: NailDesign | undefined
+  let designId: string | undefined
+  const designField = form.get("design")
+  if (typeof designField === "string" && designField.trim().startsWith("{")) {
+    let designInput: unknown
+    try {
+      designInput = JSON.parse(designField)
+    } catch {
+      return errorResponse(400, '"design" is not valid JSON')
+    }
+    const parsed = nailDesignSchema.safeParse(designInput)
+    if (!parsed.success) {
+      return errorResponse(400, 'Invalid "design"', formatIssues(parsed.error))
+    }
+    customDesign = parsed.data
+    designId = customDesign.id
+  } else if (typeof designField === "string" && designField) {
+    designId = designField
+  }
+
+  let manicures: HandManicures
+  if (manicureInput !== undefined) {
+    const parsed = handManicuresSchema.safeParse(manicureInput)
+    if (!parsed.success) {
+      return errorResponse(400, 'Invalid "manicure"', formatIssues(parsed.error))
+    }
+    manicures = parsed.data
+  } else if (designId) {
+    manicures = createUniformHandManicures(designId)
+  } else {
+    return errorResponse(400, 'Provide a "design" or a "manicure"')
+  }
+
+  let nailShape: NailShapeOptions | undefined
+  if (shapeInput !== undefined) {
+    const parsed = nailShapeSchema.safeParse(shapeInput)
+    if (!parsed.success) {
+      return errorResponse(400, 'Invalid "shape"', formatIssues(parsed.error))
+    }
+    nailShape = parsed.data
+  }
+
+  const usedIds = new Set(HAND_SIDES.flatMap((side) => FINGERS.map((finger) => manicures[side][finger])))
+  const unknownIds = Array.from(usedIds).filter((id) => id !== customDesign?.id && !getDesign(id))
+  if (unknownIds.length > 0) {
+    return errorResponse(400, `Unknown design: ${unknownIds.join(", ")}`)
+  }
+
+  const data = Buffer.from(await file.arrayBuffer())
+  const size = readImageSize(data)
+  if (!size) {
+    return errorResponse(415, "Could not read the image. Use JPEG, PNG or WebP.")
+  }
+  if (hasTooManyPixels(size)) {
+    return errorResponse(413, `Images can't be over ${TRY_ON_MAX_IMAGE_PIXELS / 1_000_000} megapixels`)
+  }
+  let image
+  try {
+    image = await decodeImage(data)
+  } catch {
+    return errorResponse(415, "Could not decode the image. Use JPEG, PNG or WebP.")
+  }
+
+  let textureImage: TryOnImageSource | undefined
+  if (customDesign?.texture) {
+    const textureData = Buffer.from(customDesign.texture.split(",")[1], "base64")
+    const textureSize = readImageSize(textureData)
+    if (!textureSize) {
+      return errorResponse(400, 'Could not read the "design" texture')
+    }
+    if (hasTooManyPixels(textureSize)) {
+      return errorResponse(413, `The "design" texture can't be over ${TRY_ON_MAX_IMAGE_PIXELS / 1_000_000} megapixels`)
+    }
+    try {
+      textureImage = await decodeImage(textureData)
+    } catch {
+      return errorResponse(400, 'Could not decode the "design" texture')
+    }
+  }
+
+  try {
+    const { canvas, placements } = renderTryOn(image, hands.data, manicures, {
+      getTexture: (id, shape) =>
+        id === customDesign?.id
+          ? renderDesign(customDesign, undefined, textureImage, shape)
+          : getDesignTexture(id, shape),
+      getDesign: (id) => (id === customDesign?.id ? customDesign : getDesign(id)),
+      nailShape,
+    })
+
+    return NextResponse.json<TryOnApiResponse>({
+      image: `data:image/png;base64,${encodePng(canvas).toString("base64")}`,
+      width: canvas.width,
+      height: canvas.height,
+      hands: hands.data,
+      nails: placements.map(({ mask: _mask, ...placement }) => placement),
+    })
+  } catch (err) {
+    console.error("Error rendering try-on preview:", err)
+    return errorResponse(500, "Failed to render the try-on preview")
+  }
+}
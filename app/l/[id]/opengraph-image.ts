@@ -0,0 +1,39 @@
+import { getDesignColors } from "@/lib/designs/gallery"
+import { renderBrandedCard } from "@/lib/export-image"
+import { getSharedLookDesigns } from "@/lib/looks/share"
+import { getSharedLook, getSharedLookImage } from "@/lib/looks/shared-store"
+import { createCanvas, getContext2D } from "@/lib/try-on/canvas"
+import { decodeImage, encodePng, installNodeCanvas } from "@/lib/try-on/node-canvas"
+
+// Link preview for a shared look: its result beside the designs worn, like the branded
+// card the export dialog saves
+
+export const runtime = "nodejs"
+export const contentType = "image/png"
+export const alt = "A nail look tried on in the Virtual Nail Salon"
+
+// With the card's padding, previews come out about 630 pixels tall, the size sites show them at
+const PREVIEW_PHOTO_HEIGHT = 570
+
+installNodeCanvas()
+
+export default async function Image({ params }: { params: { id: string } }) {
+  const [look, data] = await Promise.all([getSharedLook(params.id), getSharedLookImage(params.id)])
+  if (!look || !data) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const image = await decodeImage(data)
+  const scale = PREVIEW_PHOTO_HEIGHT / image.height
+  const photo = createCanvas(Math.round(image.width * scale), PREVIEW_PHOTO_HEIGHT)
+  getContext2D(photo).drawImage(image, 0, 0, photo.width, photo.height)
+
+  const card = renderBrandedCard(photo, {
+    title: "Try this look!",
+    designs: getSharedLookDesigns(look).map((design) => ({ name: design.name, colors: getDesignColors(design) })),
+    footer: "Virtual Nail Salon",
+  })
+  return new Response(new Uint8Array(encodePng(card)), {
+    headers: { "Content-Type": contentType, "Cache-Control": "public, max-age=31536000, immutable" },
+  })
+}
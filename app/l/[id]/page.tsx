@@ -0,0 +1,94 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { parseColor, toHexString, type RGBA } from "@/lib/color"
+import { getDesignColors } from "@/lib/designs/gallery"
+import type { NailDesign } from "@/lib/designs/schema"
+import { getSharedLookDesigns, getSharedLookImagePath, getTryLookPath } from "@/lib/looks/share"
+import { getSharedLook } from "@/lib/looks/shared-store"
+import { Sparkles } from "lucide-react"
+
+// Read-only page for a look shared as a link. Link previews need absolute image URLs, so set
+// SITE_URL to the site's public address, e.g. https://nails.example.com.
+
+type SharedLookPageProps = {
+  params: Promise<{ id: string }>
+}
+
+function getSwatchColors(design: NailDesign): string[] {
+  const hexCodes = getDesignColors(design)
+    .map((color) => parseColor(color))
+    .filter((color): color is RGBA => color !== null)
+    .map((color) => toHexString(color).toUpperCase())
+  return Array.from(new Set(hexCodes))
+}
+
+export async function generateMetadata({ params }: SharedLookPageProps): Promise<Metadata> {
+  const { id } = await params
+  const look = await getSharedLook(id)
+  if (!look) return { title: "Look not found | Virtual Nail Salon" }
+
+  const names = getSharedLookDesigns(look).map((design) => design.name)
+  const description = `Nails tried on with ${names.join(", ")}. Try this look on your own hand!`
+  return {
+    metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
+    title: `${names[0] ?? "A nail look"} | Virtual Nail Salon`,
+    description,
+    openGraph: { title: "Check out this nail look!", description, type: "website" },
+    twitter: { card: "summary_large_image", title: "Check out this nail look!", description },
+  }
+}
+
+export default async function SharedLookPage({ params }: SharedLookPageProps) {
+  const { id } = await params
+  const look = await getSharedLook(id)
+  if (!look) notFound()
+
+  const designs = getSharedLookDesigns(look)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-100 py-8 px-4 flex flex-col items-center">
+      <header className="mb-8 text-center">
+        <h1 className="text-4xl font-bold text-pink-600">Virtual Nail Salon</h1>
+        <p className="text-gray-700 mt-2">Someone shared a nail look with you</p>
+      </header>
+      <main className="w-full max-w-2xl p-6 bg-white shadow-xl rounded-lg">
+        <Image
+          src={getSharedLookImagePath(look.id)}
+          alt={`Nails with ${designs.map((design) => design.name).join(", ")}`}
+          width={look.imageWidth}
+          height={look.imageHeight}
+          className="w-full h-auto rounded-lg shadow-md"
+        />
+        <h2 className="mt-6 text-lg font-semibold text-gray-800">Designs in this look</h2>
+        <ul className="mt-2 space-y-2">
+          {designs.map((design) => (
+            <li key={design.id} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-700">{design.name}</span>
+              {getSwatchColors(design).map((color) => (
+                <span
+                  key={color}
+                  title={color}
+                  className="h-4 w-4 rounded-full border border-black/10"
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </li>
+          ))}
+        </ul>
+        <div className="mt-8 flex justify-center">
+          <Button asChild className="bg-pink-500 hover:bg-pink-600 text-white">
+            <Link href={getTryLookPath(look.id)}>
+              <Sparkles className="mr-2 h-4 w-4" /> Try This Look Yourself
+            </Link>
+          </Button>
+        </div>
+      </main>
+      <footer className="mt-12 text-center text-sm text-gray-600">
+        <p>&copy; {new Date().getFullYear()} v0 Nail Designs. All rights reserved.</p>
+      </footer>
+    </div>
+  )
+}
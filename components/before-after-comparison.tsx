@@ -0,0 +1,164 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { COMPARISON_MODES, COMPARISON_MODE_LABELS, renderComparison, type ComparisonMode } from "@/lib/comparison"
+import { canvasToBlob } from "@/lib/try-on/canvas"
+import { Download, Loader2 } from "lucide-react"
+
+type BeforeAfterComparisonProps = {
+  beforeSrc: string // The photo as uploaded
+  afterSrc: string // The same photo with the nail designs applied
+  imageWidth: number
+  imageHeight: number
+  onError: (message: string) => void
+}
+
+async function loadBitmap(src: string): Promise<ImageBitmap> {
+  return createImageBitmap(await (await fetch(src)).blob())
+}
+
+function ComparisonLabel({ children, className }: { children: React.ReactNode; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "pointer-events-none absolute top-2 rounded-full bg-black/55 px-3 py-1 text-xs font-semibold text-white",
+        className,
+      )}
+    >
+      {children}
+    </span>
+  )
+}
+
+export default function BeforeAfterComparison({
+  beforeSrc,
+  afterSrc,
+  imageWidth,
+  imageHeight,
+  onError,
+}: BeforeAfterComparisonProps) {
+  const [mode, setMode] = useState<ComparisonMode>("slider")
+  const [split, setSplit] = useState(0.5)
+  const [showAfter, setShowAfter] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const aspectRatio = imageWidth > 0 && imageHeight > 0 ? `${imageWidth} / ${imageHeight}` : undefined
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    let bitmaps: ImageBitmap[] = []
+    try {
+      bitmaps = await Promise.all([loadBitmap(beforeSrc), loadBitmap(afterSrc)])
+      const [before, after] = bitmaps
+      const canvas = renderComparison(before, after, { layout: mode === "slider" ? "split" : "side-by-side", split })
+      const url = URL.createObjectURL(await canvasToBlob(canvas))
+      const link = document.createElement("a")
+      link.download = "nail-try-on-comparison.png"
+      link.href = url
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+    } catch (err) {
+      console.error("Error exporting comparison:", err)
+      onError("Failed to export the comparison. Please try again.")
+    } finally {
+      bitmaps.forEach((bitmap) => bitmap.close())
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {COMPARISON_MODES.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={mode === option ? "default" : "outline"}
+            onClick={() => setMode(option)}
+            className={cn(mode === option && "bg-pink-500 hover:bg-pink-600 text-white")}
+          >
+            {COMPARISON_MODE_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {mode === "slider" && (
+        <div
+          className="relative w-full max-w-xl overflow-hidden rounded-lg border-2 border-pink-300 shadow-md select-none"
+          style={{ aspectRatio }}
+        >
+          <Image src={afterSrc} alt="After" fill draggable={false} />
+          <Image
+            src={beforeSrc}
+            alt="Before"
+            fill
+            style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+            draggable={false}
+          />
+          <div
+            className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow"
+            style={{ left: `${split * 100}%` }}
+          >
+            <span className="absolute top-1/2 left-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-pink-500/80" />
+          </div>
+          {split > 0.1 && <ComparisonLabel className="left-2">Before</ComparisonLabel>}
+          {split < 0.9 && <ComparisonLabel className="right-2">After</ComparisonLabel>}
+          {/* A transparent range input covers the photo, so dragging, tapping and the keyboard all move the divider */}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.005}
+            value={split}
+            onChange={(event) => setSplit(Number(event.target.value))}
+            aria-label="Comparison divider position"
+            className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+          />
+        </div>
+      )}
+
+      {mode === "side-by-side" && (
+        <div className="grid w-full grid-cols-2 gap-2">
+          {[
+            { src: beforeSrc, label: "Before" },
+            { src: afterSrc, label: "After" },
+          ].map(({ src, label }) => (
+            <div key={label} className="relative overflow-hidden rounded-lg border-2 border-pink-300 shadow-md">
+              <Image src={src} alt={label} width={imageWidth} height={imageHeight} className="h-auto w-full" />
+              <ComparisonLabel className="left-2">{label}</ComparisonLabel>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === "toggle" && (
+        <button
+          type="button"
+          onClick={() => setShowAfter((show) => !show)}
+          aria-pressed={showAfter}
+          title="Tap to switch between before and after"
+          className="relative w-full max-w-xl overflow-hidden rounded-lg border-2 border-pink-300 shadow-md"
+        >
+          <Image
+            src={showAfter ? afterSrc : beforeSrc}
+            alt={showAfter ? "After" : "Before"}
+            width={imageWidth}
+            height={imageHeight}
+            className="h-auto w-full"
+          />
+          <ComparisonLabel className="left-2">{showAfter ? "After" : "Before"}</ComparisonLabel>
+        </button>
+      )}
+
+      <Button size="sm" variant="outline" onClick={handleExport} disabled={isExporting}>
+        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+        Export Comparison
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,296 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  CAMERA_COUNTDOWNS,
+  CAMERA_RESOLUTIONS,
+  captureVideoFrame,
+  getCameraConstraints,
+  isCameraSupported,
+  isMirroredCamera,
+  listCameras,
+  type CameraResolution,
+  type CameraSettings,
+} from "@/lib/camera"
+import { canvasToBlob } from "@/lib/try-on/canvas"
+import { Camera, FlipHorizontal2, Hand, Loader2, SwitchCamera, Timer } from "lucide-react"
+
+type CameraCaptureProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // `isMirrored` is true when the photo was flipped to match a mirrored preview
+  onCapture: (photo: Blob, isMirrored: boolean) => void
+}
+
+// Phones start on the back camera, which takes sharper photos of a hand held in front of it
+const DEFAULT_SETTINGS: CameraSettings = { deviceId: null, facing: "environment", resolution: "full-hd" }
+
+// Outline of a hand with spread fingers, in a 100 x 100 box
+function HandGuide() {
+  const fingers = [
+    { x: 14, y: 44, height: 26, angle: -50 }, // Thumb
+    { x: 31, y: 16, height: 38, angle: -10 },
+    { x: 43, y: 10, height: 42, angle: 0 },
+    { x: 55, y: 13, height: 40, angle: 8 },
+    { x: 66, y: 24, height: 32, angle: 18 },
+  ]
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden
+    >
+      <g fill="rgba(255, 255, 255, 0.08)" stroke="white" strokeWidth={0.6} strokeDasharray="2 1.5" opacity={0.8}>
+        <rect x={29} y={48} width={42} height={40} rx={12} />
+        {fingers.map(({ x, y, height, angle }) => (
+          <rect
+            key={`${x}-${y}`}
+            x={x}
+            y={y}
+            width={9}
+            height={height}
+            rx={4.5}
+            transform={`rotate(${angle} ${x + 4.5} ${y + height})`}
+          />
+        ))}
+      </g>
+    </svg>
+  )
+}
+
+export default function CameraCapture({ open, onOpenChange, onCapture }: CameraCaptureProps) {
+  const [settings, setSettings] = useState<CameraSettings>(DEFAULT_SETTINGS)
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
+  const [activeDeviceId, setActiveDeviceId] = useState("")
+  const [isMirrored, setIsMirrored] = useState(false)
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 })
+  const [countdownSeconds, setCountdownSeconds] = useState<number>(0)
+  const [countdown, setCountdown] = useState<number | null>(null) // Seconds left before the photo
+  const [showGuide, setShowGuide] = useState(true)
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+
+  // Restarts the camera whenever a different one or another resolution is picked
+  useEffect(() => {
+    if (!open) return
+    if (!isCameraSupported()) {
+      setError("Camera access is not supported in your browser.")
+      return
+    }
+
+    let cancelled = false
+    let mediaStream: MediaStream | null = null
+    setIsStarting(true)
+    setError(null)
+
+    navigator.mediaDevices
+      .getUserMedia(getCameraConstraints(settings))
+      .then(async (started) => {
+        if (cancelled) {
+          started.getTracks().forEach((track) => track.stop())
+          return
+        }
+        mediaStream = started
+        const [track] = started.getVideoTracks()
+        setIsMirrored(isMirroredCamera(track, settings.facing))
+        setActiveDeviceId(track.getSettings().deviceId ?? "")
+        setStream(started)
+        // Labels are only available now that the camera is allowed
+        const found = await listCameras()
+        if (!cancelled) setCameras(found)
+      })
+      .catch((err) => {
+        console.error("Error accessing camera:", err)
+        if (!cancelled) setError("Failed to access camera. Please check permissions and try again.")
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false)
+      })
+
+    return () => {
+      cancelled = true
+      mediaStream?.getTracks().forEach((track) => track.stop())
+      setStream(null)
+      setCountdown(null)
+    }
+  }, [open, settings])
+
+  // The video lives in the dialog's portal, which mounts after the dialog opens
+  const attachVideo = useCallback(
+    (video: HTMLVideoElement | null) => {
+      videoRef.current = video
+      if (video && video.srcObject !== stream) video.srcObject = stream
+    },
+    [stream],
+  )
+
+  const capture = useCallback(async () => {
+    const video = videoRef.current
+    if (!video || video.videoWidth === 0) return
+    try {
+      onCapture(await canvasToBlob(captureVideoFrame(video, isMirrored)), isMirrored)
+      onOpenChange(false)
+    } catch (err) {
+      console.error("Error capturing image:", err)
+      setError("Failed to capture image. Please try again.")
+    }
+  }, [isMirrored, onCapture, onOpenChange])
+
+  useEffect(() => {
+    if (countdown === null) return
+    if (countdown === 0) {
+      setCountdown(null)
+      capture()
+      return
+    }
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000)
+    return () => clearTimeout(timeout)
+  }, [countdown, capture])
+
+  const handleTakePhoto = () => {
+    if (countdown !== null) {
+      setCountdown(null)
+    } else if (countdownSeconds > 0) {
+      setCountdown(countdownSeconds)
+    } else {
+      capture()
+    }
+  }
+
+  const isReady = !!stream && !isStarting && !error
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Take a Photo</DialogTitle>
+          <DialogDescription>
+            Hold the back of your hand inside the outline, with your nails facing the camera.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative flex aspect-video items-center justify-center overflow-hidden rounded-lg bg-black">
+          <video
+            ref={attachVideo}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={(event) =>
+              setVideoSize({ width: event.currentTarget.videoWidth, height: event.currentTarget.videoHeight })
+            }
+            className={cn("h-full w-full object-contain", isMirrored && "-scale-x-100")}
+          />
+          {isReady && showGuide && <HandGuide />}
+          {isStarting && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+              <Loader2 className="h-10 w-10 animate-spin text-pink-400" />
+              <p className="mt-2 text-sm">Starting camera...</p>
+            </div>
+          )}
+          {countdown !== null && countdown > 0 && (
+            <div
+              role="timer"
+              className="absolute inset-0 flex items-center justify-center text-7xl font-bold text-white drop-shadow-lg"
+            >
+              {countdown}
+            </div>
+          )}
+          {error && <p className="absolute inset-x-4 text-center text-sm text-white">{error}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {cameras.length > 1 && (
+            <label className="text-sm text-gray-600">
+              Camera
+              <select
+                value={activeDeviceId}
+                onChange={(event) => setSettings((current) => ({ ...current, deviceId: event.target.value }))}
+                className="mt-1 block w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                {cameras.map((camera, i) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="text-sm text-gray-600">
+            Resolution
+            <select
+              value={settings.resolution}
+              onChange={(event) =>
+                setSettings((current) => ({ ...current, resolution: event.target.value as CameraResolution }))
+              }
+              className="mt-1 block w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+            >
+              {CAMERA_RESOLUTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {videoSize.width > 0 && (
+              <span className="mt-1 block text-xs text-gray-500">
+                Camera is sending {videoSize.width} × {videoSize.height}
+              </span>
+            )}
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Timer className="h-4 w-4 text-gray-500" aria-hidden />
+          {CAMERA_COUNTDOWNS.map((seconds) => (
+            <Button
+              key={seconds}
+              size="sm"
+              variant={countdownSeconds === seconds ? "default" : "outline"}
+              aria-pressed={countdownSeconds === seconds}
+              onClick={() => setCountdownSeconds(seconds)}
+              className={cn(countdownSeconds === seconds && "bg-pink-500 hover:bg-pink-600 text-white")}
+            >
+              {seconds === 0 ? "No timer" : `${seconds}s`}
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" aria-pressed={showGuide} onClick={() => setShowGuide((show) => !show)}>
+            <Hand className="mr-2 h-4 w-4" /> {showGuide ? "Hide Guide" : "Show Guide"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            aria-pressed={isMirrored}
+            onClick={() => setIsMirrored((mirrored) => !mirrored)}
+          >
+            <FlipHorizontal2 className="mr-2 h-4 w-4" /> {isMirrored ? "Unmirror" : "Mirror"}
+          </Button>
+        </div>
+
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button
+            variant="outline"
+            onClick={() =>
+              setSettings((current) => ({
+                ...current,
+                deviceId: null,
+                facing: current.facing === "user" ? "environment" : "user",
+              }))
+            }
+            disabled={isStarting}
+          >
+            <SwitchCamera className="mr-2 h-4 w-4" /> {settings.facing === "user" ? "Back Camera" : "Front Camera"}
+          </Button>
+          <Button onClick={handleTakePhoto} disabled={!isReady} className="bg-pink-500 hover:bg-pink-600 text-white">
+            <Camera className="mr-2 h-4 w-4" /> {countdown !== null ? "Cancel Timer" : "Take Photo"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { createCustomDesign } from "@/lib/designs/custom"
+import { applyFinish, FINISH_LABELS } from "@/lib/designs/finish"
+import { createPhotoTexture, type NailCrop } from "@/lib/designs/photo-texture"
+import { DESIGN_TEXTURE_HEIGHT, DESIGN_TEXTURE_WIDTH } from "@/lib/designs/shape"
+import { FINISHES, type Finish, type NailDesign } from "@/lib/designs/schema"
+import { DEFAULT_LIGHT_DIRECTION } from "@/lib/light-direction"
+import { canvasToDataUrl, type TryOnCanvas } from "@/lib/try-on/canvas"
+import { Check, Link, X } from "lucide-react"
+
+type DesignCreatorProps = {
+  defaultImageSrc: string
+  onCreate: (design: NailDesign) => void
+  onCancel: () => void
+}
+
+// Boxes smaller than this, in image pixels, are treated as clicks rather than drags
+const MIN_CROP_SIZE = 8
+
+function createDefaultCrop(width: number, height: number): NailCrop {
+  const size = Math.min(width, height)
+  return { centerX: width / 2, centerY: height / 2, width: size * 0.2, height: size * 0.25, angle: 0 }
+}
+
+export default function DesignCreator({ defaultImageSrc, onCreate, onCancel }: DesignCreatorProps) {
+  const [imageSrc, setImageSrc] = useState(defaultImageSrc)
+  const [imageUrlInput, setImageUrlInput] = useState("")
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [crop, setCrop] = useState<NailCrop | null>(null)
+  const [name, setName] = useState("")
+  const [finish, setFinish] = useState<Finish>("gloss")
+  const [error, setError] = useState<string | null>(null)
+
+  const imageAreaRef = useRef<HTMLDivElement>(null)
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null)
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null)
+  // The unshaded texture that gets saved; the preview shows it with the finish applied
+  const textureRef = useRef<TryOnCanvas | null>(null)
+
+  // Photos from other sites need CORS, otherwise the canvas can't be read back
+  useEffect(() => {
+    let cancelled = false
+    const img = new window.Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => {
+      if (cancelled) return
+      setImage(img)
+      setCrop(createDefaultCrop(img.naturalWidth, img.naturalHeight))
+      setError(null)
+    }
+    img.onerror = () => {
+      if (!cancelled) setError("Could not load that photo. Check the link, or upload the photo instead.")
+    }
+    img.src = imageSrc
+    return () => {
+      cancelled = true
+    }
+  }, [imageSrc])
+
+  useEffect(() => {
+    const canvas = previewCanvasRef.current
+    if (!image || !crop || !canvas) return
+    try {
+      textureRef.current = createPhotoTexture(image, crop, textureRef.current ?? undefined)
+      applyFinish(textureRef.current, { id: "preview", finish }, DEFAULT_LIGHT_DIRECTION, { canvas })
+    } catch (err) {
+      console.error("Error rendering design preview:", err)
+    }
+  }, [image, crop, finish])
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      if (typeof reader.result === "string") setImageSrc(reader.result)
+    }
+    reader.onerror = () => {
+      setError("Failed to read the selected file. Please try another image.")
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const handleLoadUrl = () => {
+    const url = imageUrlInput.trim()
+    if (url) setImageSrc(url)
+  }
+
+  // Converts a pointer position to image pixels
+  const toImagePoint = (event: React.PointerEvent) => {
+    const area = imageAreaRef.current
+    if (!area || !image) return null
+    const rect = area.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * image.naturalWidth,
+      y: ((event.clientY - rect.top) / rect.height) * image.naturalHeight,
+    }
+  }
+
+  // Dragging draws a new box around the nail, keeping the current rotation
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(event)
+    if (!point) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragStartRef.current = point
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current
+    const point = toImagePoint(event)
+    if (!start || !point) return
+    const width = Math.abs(point.x - start.x)
+    const height = Math.abs(point.y - start.y)
+    if (width < MIN_CROP_SIZE || height < MIN_CROP_SIZE) return
+    setCrop((current) => ({
+      centerX: (start.x + point.x) / 2,
+      centerY: (start.y + point.y) / 2,
+      width,
+      height,
+      angle: current?.angle ?? 0,
+    }))
+  }
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null
+  }
+
+  const handleSave = async () => {
+    const texture = textureRef.current
+    if (!texture || !crop) return
+    try {
+      onCreate(createCustomDesign(name, await canvasToDataUrl(texture), finish))
+    } catch (err) {
+      console.error("Error creating design:", err)
+      setError(
+        err instanceof DOMException && err.name === "SecurityError"
+          ? "That photo's website doesn't allow it to be used here. Download it and upload it instead."
+          : "Failed to create the design. Please try again.",
+      )
+    }
+  }
+
+  return (
+    <div className="text-left">
+      <h2 className="text-2xl font-bold text-pink-600 mb-2 text-center">Create Your Own Design</h2>
+      <p className="text-gray-600 mb-4 text-center">
+        Drag a box around one nail, with the tip at the top of the box. Rotate it to line up with the nail.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <label className="flex-1">
+          <span className="sr-only">Upload a nail photo</span>
+          <Input type="file" accept="image/*" onChange={handleFileChange} />
+        </label>
+        <div className="flex flex-1 gap-2">
+          <Input
+            type="url"
+            placeholder="…or paste an image link"
+            value={imageUrlInput}
+            onChange={(event) => setImageUrlInput(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && handleLoadUrl()}
+          />
+          <Button type="button" variant="outline" onClick={handleLoadUrl} title="Load image link">
+            <Link className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {image && (
+        <div className="flex flex-col sm:flex-row gap-4 items-start">
+          <div
+            ref={imageAreaRef}
+            className="relative flex-1 select-none touch-none cursor-crosshair border border-gray-200 rounded-lg overflow-hidden"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <Image
+              src={imageSrc}
+              alt="Reference nail photo"
+              width={image.naturalWidth}
+              height={image.naturalHeight}
+              className="w-full h-auto pointer-events-none"
+              draggable={false}
+            />
+            {crop && (
+              <div
+                className="absolute border-2 border-pink-500 bg-pink-500/10 pointer-events-none"
+                style={{
+                  left: `${((crop.centerX - crop.width / 2) / image.naturalWidth) * 100}%`,
+                  top: `${((crop.centerY - crop.height / 2) / image.naturalHeight) * 100}%`,
+                  width: `${(crop.width / image.naturalWidth) * 100}%`,
+                  height: `${(crop.height / image.naturalHeight) * 100}%`,
+                  transform: `rotate(${crop.angle}deg)`,
+                }}
+              >
+                {/* Marks the free edge */}
+                <div className="absolute inset-x-0 top-0 h-1 bg-pink-500" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col items-center gap-3 sm:w-40">
+            <canvas
+              ref={previewCanvasRef}
+              width={DESIGN_TEXTURE_WIDTH}
+              height={DESIGN_TEXTURE_HEIGHT}
+              className="w-24 h-auto rounded-md bg-[repeating-conic-gradient(#f3f4f6_0_25%,#fff_0_50%)] bg-[length:16px_16px]"
+            />
+            <label className="w-full text-sm text-gray-600">
+              Rotation: {Math.round(crop?.angle ?? 0)}°
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                value={crop?.angle ?? 0}
+                onChange={(event) => {
+                  const angle = Number(event.target.value)
+                  setCrop((current) => (current ? { ...current, angle } : current))
+                }}
+                className="w-full accent-pink-500"
+              />
+            </label>
+            <label className="w-full text-sm text-gray-600">
+              Finish
+              <select
+                value={finish}
+                onChange={(event) => setFinish(event.target.value as Finish)}
+                className="mt-1 block w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                {FINISHES.map((option) => (
+                  <option key={option} value={option}>
+                    {FINISH_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Input placeholder="Design name" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-4 flex justify-center gap-3">
+        <Button onClick={handleSave} disabled={!crop} className="bg-pink-500 hover:bg-pink-600 text-white">
+          <Check className="mr-2 h-4 w-4" /> Save Design
+        </Button>
+        <Button onClick={onCancel} variant="outline">
+          <X className="mr-2 h-4 w-4" /> Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { loadFavoriteDesignIds, saveFavoriteDesignIds } from "@/lib/designs/favorites"
+import {
+  COLOR_FAMILIES,
+  COLOR_FAMILY_SWATCHES,
+  DESIGN_CATEGORY_LABELS,
+  listDesignTags,
+  matchesDesignFilters,
+  NO_DESIGN_FILTERS,
+  type DesignFilters,
+} from "@/lib/designs/gallery"
+import { DESIGN_CATEGORIES, type NailDesign } from "@/lib/designs/schema"
+import { renderDesignSwatches } from "@/lib/designs/swatch"
+import { Heart, Search } from "lucide-react"
+
+type DesignGalleryProps = {
+  designs: NailDesign[]
+  selectedId: string
+  onSelect: (designId: string) => void
+}
+
+// Most common tags offered as quick searches
+const TAG_SUGGESTIONS = 8
+
+export default function DesignGallery({ designs, selectedId, onSelect }: DesignGalleryProps) {
+  const [filters, setFilters] = useState<Omit<DesignFilters, "favoriteIds">>(NO_DESIGN_FILTERS)
+  const [showFavorites, setShowFavorites] = useState(false)
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([])
+  const [swatches, setSwatches] = useState<Record<string, string>>({})
+
+  // Favorites live in localStorage, which is only available after hydration
+  useEffect(() => {
+    setFavoriteIds(loadFavoriteDesignIds())
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    renderDesignSwatches(designs)
+      .then((rendered) => {
+        if (!cancelled) setSwatches(rendered)
+      })
+      .catch((err) => {
+        console.error("Error rendering design swatches:", err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [designs])
+
+  const tags = useMemo(() => listDesignTags(designs).slice(0, TAG_SUGGESTIONS), [designs])
+  const visibleDesigns = designs.filter((design) =>
+    matchesDesignFilters(design, { ...filters, favoriteIds: showFavorites ? favoriteIds : null }),
+  )
+  const hasFilters = showFavorites || filters.query !== "" || filters.category !== null || filters.colorFamily !== null
+
+  const toggleFavorite = (designId: string) => {
+    const next = favoriteIds.includes(designId)
+      ? favoriteIds.filter((id) => id !== designId)
+      : [...favoriteIds, designId]
+    setFavoriteIds(next)
+    try {
+      saveFavoriteDesignIds(next)
+    } catch (err) {
+      console.error("Error saving favorite designs:", err)
+    }
+  }
+
+  return (
+    <div className="w-full text-left">
+      <div className="relative mb-3">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          type="search"
+          value={filters.query}
+          onChange={(event) => setFilters((current) => ({ ...current, query: event.target.value }))}
+          placeholder="Search designs, e.g. wedding or glitter"
+          aria-label="Search designs"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <Button
+          size="sm"
+          variant={filters.category === null ? "default" : "outline"}
+          onClick={() => setFilters((current) => ({ ...current, category: null }))}
+          className={cn(filters.category === null && "bg-pink-500 hover:bg-pink-600 text-white")}
+        >
+          All
+        </Button>
+        {DESIGN_CATEGORIES.map((category) => (
+          <Button
+            key={category}
+            size="sm"
+            variant={filters.category === category ? "default" : "outline"}
+            onClick={() => setFilters((current) => ({ ...current, category }))}
+            className={cn(filters.category === category && "bg-pink-500 hover:bg-pink-600 text-white")}
+          >
+            {DESIGN_CATEGORY_LABELS[category]}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant={showFavorites ? "default" : "outline"}
+          aria-pressed={showFavorites}
+          onClick={() => setShowFavorites((show) => !show)}
+          className={cn(showFavorites && "bg-pink-500 hover:bg-pink-600 text-white")}
+        >
+          <Heart className={cn("mr-1 h-4 w-4", showFavorites && "fill-current")} /> Favorites
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {COLOR_FAMILIES.map((family) => {
+          const isSelected = filters.colorFamily === family
+          return (
+            <button
+              key={family}
+              type="button"
+              title={COLOR_FAMILY_SWATCHES[family].label}
+              aria-label={`${COLOR_FAMILY_SWATCHES[family].label} designs`}
+              aria-pressed={isSelected}
+              onClick={() => setFilters((current) => ({ ...current, colorFamily: isSelected ? null : family }))}
+              className={cn(
+                "h-7 w-7 rounded-full border-2 transition-transform",
+                isSelected ? "border-pink-500 scale-110" : "border-white shadow hover:scale-105",
+              )}
+              style={{ backgroundColor: COLOR_FAMILY_SWATCHES[family].color }}
+            />
+          )
+        })}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-4">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setFilters((current) => ({ ...current, query: tag }))}
+              className="rounded-full bg-pink-50 px-2 py-0.5 text-xs text-pink-700 hover:bg-pink-100"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleDesigns.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-500">
+          <p>{showFavorites && favoriteIds.length === 0 ? "No favorites yet." : "No designs match."}</p>
+          {hasFilters && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setFilters(NO_DESIGN_FILTERS)
+                setShowFavorites(false)
+              }}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {visibleDesigns.map((design) => {
+            const isSelected = design.id === selectedId
+            const isFavorite = favoriteIds.includes(design.id)
+            return (
+              <div
+                key={design.id}
+                className={cn(
+                  "relative rounded-lg border-2 bg-gray-50 transition-colors",
+                  isSelected ? "border-pink-500" : "border-gray-200 hover:border-pink-300",
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(design.id)}
+                  aria-pressed={isSelected}
+                  className="flex w-full flex-col items-center p-2 text-center"
+                >
+                  <div className="h-20 w-16">
+                    {swatches[design.id] && (
+                      <Image
+                        src={swatches[design.id]}
+                        alt=""
+                        width={64}
+                        height={80}
+                        className="h-full w-full object-contain"
+                      />
+                    )}
+                  </div>
+                  <span className="mt-1 text-sm font-medium text-gray-800">{design.name}</span>
+                  <span className="text-xs text-gray-500">{DESIGN_CATEGORY_LABELS[design.category]}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleFavorite(design.id)}
+                  aria-pressed={isFavorite}
+                  aria-label={isFavorite ? `Remove ${design.name} from favorites` : `Add ${design.name} to favorites`}
+                  className="absolute right-1 top-1 rounded-full p-1 text-pink-500 hover:bg-pink-100"
+                >
+                  <Heart className={cn("h-4 w-4", isFavorite && "fill-current")} />
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { NailDesign } from "@/lib/designs/schema"
+import type { TryOnThumbnail } from "@/lib/try-on/protocol"
+import { Loader2 } from "lucide-react"
+
+type DesignGridProps = {
+  designs: NailDesign[]
+  // Renders the chosen designs on the current photo, all in one request
+  renderThumbnails: (designIds: string[]) => Promise<TryOnThumbnail[]>
+  onPick: (designId: string) => void
+  onError: (message: string) => void
+}
+
+function ThumbnailCanvas({ image }: { image: ImageBitmap }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    canvas.width = image.width
+    canvas.height = image.height
+    ctx.drawImage(image, 0, 0)
+  }, [image])
+
+  return <canvas ref={canvasRef} className="h-auto w-full" />
+}
+
+export default function DesignGrid({ designs, renderThumbnails, onPick, onError }: DesignGridProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => designs.map((design) => design.id))
+  const [thumbnails, setThumbnails] = useState<TryOnThumbnail[]>([])
+  const [isRendering, setIsRendering] = useState(false)
+
+  // Re-render whenever the selection or anything the thumbnails depend on changes
+  useEffect(() => {
+    let cancelled = false
+    setIsRendering(true)
+    renderThumbnails(selectedIds)
+      .then((rendered) => {
+        if (cancelled) {
+          rendered.forEach(({ image }) => image.close())
+          return
+        }
+        setThumbnails(rendered)
+      })
+      .catch((err) => {
+        console.error("Error rendering design grid:", err)
+        if (!cancelled) onError("Failed to render the design comparison. Please try again.")
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [renderThumbnails, selectedIds, onError])
+
+  // Thumbnails hold GPU memory until closed
+  useEffect(() => () => thumbnails.forEach(({ image }) => image.close()), [thumbnails])
+
+  const toggleDesign = (designId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(designId)
+        ? ids.filter((id) => id !== designId)
+        : designs.map((design) => design.id).filter((id) => id === designId || ids.includes(id)),
+    )
+  }
+
+  const designNames = new Map(designs.map((design) => [design.id, design.name]))
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="w-full">
+        <p className="text-sm text-gray-600 mb-2">Designs to compare</p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setSelectedIds(designs.map((design) => design.id))}>
+            All
+          </Button>
+          {designs.map((design) => {
+            const isSelected = selectedIds.includes(design.id)
+            return (
+              <Button
+                key={design.id}
+                size="sm"
+                variant={isSelected ? "default" : "outline"}
+                aria-pressed={isSelected}
+                onClick={() => toggleDesign(design.id)}
+                className={cn(isSelected && "bg-pink-500 hover:bg-pink-600 text-white")}
+              >
+                {design.name}
+              </Button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="relative w-full">
+        {isRendering && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/60">
+            <Loader2 className="h-8 w-8 animate-spin text-pink-500" />
+          </div>
+        )}
+        {selectedIds.length === 0 ? (
+          <p className="text-sm text-gray-500">Pick at least one design to compare.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {thumbnails.map(({ designId, image }) => (
+              <button
+                key={designId}
+                type="button"
+                title={`Open ${designNames.get(designId) ?? designId} full size`}
+                onClick={() => onPick(designId)}
+                className="overflow-hidden rounded-lg border-2 border-gray-200 bg-gray-50 text-left hover:border-pink-400"
+              >
+                <ThumbnailCanvas image={image} />
+                <span className="block truncate px-2 py-1 text-sm text-gray-700">
+                  {designNames.get(designId) ?? designId}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-600">Tap your favorite to open it full size</p>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_DETAILS,
+  WATERMARK_POSITIONS,
+  WATERMARK_POSITION_LABELS,
+  loadExportSettings,
+  saveExportSettings,
+  type ExportSettings,
+  type WatermarkPosition,
+} from "@/lib/export-image"
+import { Download, Loader2, X } from "lucide-react"
+
+type ExportDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  workingSize: { width: number; height: number } // The result as shown
+  fullSize: { width: number; height: number } | null // The original photo, when there is one
+  // Renders and downloads the image
+  onExport: (settings: ExportSettings, logo: File | null) => Promise<void>
+}
+
+export default function ExportDialog({ open, onOpenChange, workingSize, fullSize, onExport }: ExportDialogProps) {
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
+  const [logo, setLogo] = useState<File | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const logoInputRef = useRef<HTMLInputElement>(null)
+
+  // Settings live in localStorage, which is only available after hydration
+  useEffect(() => {
+    if (!open) return
+    setSettings(loadExportSettings())
+    setError(null)
+  }, [open])
+
+  const updateSettings = (changes: Partial<ExportSettings>) => {
+    setSettings((current) => ({ ...current, ...changes }))
+  }
+
+  const format = EXPORT_FORMAT_DETAILS[settings.format]
+  const isFullSize = settings.isFullSize && !!fullSize
+  const size = isFullSize && fullSize ? fullSize : workingSize
+
+  const handleRemoveLogo = () => {
+    setLogo(null)
+    if (logoInputRef.current) logoInputRef.current.value = ""
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      saveExportSettings(settings)
+    } catch (err) {
+      console.error("Error saving export settings:", err)
+    }
+    try {
+      await onExport({ ...settings, isFullSize }, logo)
+      onOpenChange(false)
+    } catch (err) {
+      console.error("Error exporting image:", err)
+      setError("Failed to save image. Please try again.")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Save Image</DialogTitle>
+          <DialogDescription>Choose a format and size, and add your salon's branding if you like.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Format</p>
+          <div className="flex gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={settings.format === option ? "default" : "outline"}
+                aria-pressed={settings.format === option}
+                onClick={() => updateSettings({ format: option })}
+                className={cn(settings.format === option && "bg-pink-500 hover:bg-pink-600 text-white")}
+              >
+                {EXPORT_FORMAT_DETAILS[option].label}
+              </Button>
+            ))}
+          </div>
+          {format.isLossy && (
+            <label className="block text-sm text-gray-600">
+              Quality: {Math.round(settings.quality * 100)}%
+              <input
+                type="range"
+                min={50}
+                max={100}
+                value={Math.round(settings.quality * 100)}
+                onChange={(event) => updateSettings({ quality: Number(event.target.value) / 100 })}
+                className="mt-1 block w-full accent-pink-500"
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Size</p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={isFullSize ? "default" : "outline"}
+              aria-pressed={isFullSize}
+              disabled={!fullSize}
+              onClick={() => updateSettings({ isFullSize: true })}
+              className={cn(isFullSize && "bg-pink-500 hover:bg-pink-600 text-white")}
+            >
+              Full size{fullSize && ` (${fullSize.width} × ${fullSize.height})`}
+            </Button>
+            <Button
+              size="sm"
+              variant={!isFullSize ? "default" : "outline"}
+              aria-pressed={!isFullSize}
+              onClick={() => updateSettings({ isFullSize: false })}
+              className={cn(!isFullSize && "bg-pink-500 hover:bg-pink-600 text-white")}
+            >
+              As shown ({workingSize.width} × {workingSize.height})
+            </Button>
+          </div>
+          {!fullSize && (
+            <p className="text-xs text-gray-500">Live captures and saved looks are only kept at the size shown.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Watermark</p>
+          <Input
+            value={settings.watermarkText}
+            onChange={(event) => updateSettings({ watermarkText: event.target.value })}
+            placeholder="Salon name or @handle (optional)"
+            maxLength={60}
+            aria-label="Watermark text"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="text-sm text-gray-600">
+              <span className="sr-only">Logo</span>
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                onChange={(event) => setLogo(event.target.files?.[0] ?? null)}
+                className="block w-full text-sm file:mr-2 file:rounded-md file:border-0 file:bg-pink-50 file:px-3 file:py-1.5 file:text-pink-600"
+              />
+            </label>
+            {logo && (
+              <Button size="sm" variant="ghost" onClick={handleRemoveLogo} aria-label="Remove logo">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {(settings.watermarkText.trim() || logo) && (
+            <select
+              value={settings.watermarkPosition}
+              onChange={(event) => updateSettings({ watermarkPosition: event.target.value as WatermarkPosition })}
+              aria-label="Watermark position"
+              className="block w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+            >
+              {WATERMARK_POSITIONS.map((position) => (
+                <option key={position} value={position}>
+                  {WATERMARK_POSITION_LABELS[position]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Layout</p>
+          <div className="flex gap-2">
+            {(["photo", "card"] as const).map((layout) => (
+              <Button
+                key={layout}
+                size="sm"
+                variant={settings.layout === layout ? "default" : "outline"}
+                aria-pressed={settings.layout === layout}
+                onClick={() => updateSettings({ layout })}
+                className={cn(settings.layout === layout && "bg-pink-500 hover:bg-pink-600 text-white")}
+              >
+                {layout === "photo" ? "Photo only" : "Card with design details"}
+              </Button>
+            ))}
+          </div>
+          {settings.layout === "card" && (
+            <Input
+              value={settings.cardTitle}
+              onChange={(event) => updateSettings({ cardTitle: event.target.value })}
+              placeholder="Card title"
+              maxLength={40}
+              aria-label="Card title"
+            />
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || size.width === 0}
+            className="bg-pink-500 hover:bg-pink-600 text-white"
+          >
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}{" "}
+            Save {format.label}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Loader2, Camera, X } from "lucide-react"
+import type { HandDetector } from "@/lib/hand-detection/types"
+import type { DetectedHand } from "@/lib/handedness"
+import { getHandIssues, getImageIssues, measureImageQuality, type PhotoIssue } from "@/lib/photo-quality"
+
+type LiveTryOnProps = {
+  handDetector: HandDetector
+  drawOverlays: (ctx: CanvasRenderingContext2D, hands: DetectedHand[], width: number, height: number) => number
+  onCapture: (rawImageDataUrl: string, hands: DetectedHand[]) => void
+  onClose: () => void
+}
+
+// Exposure and blur are checked on a frame this often, in milliseconds; hands every frame
+const IMAGE_CHECK_INTERVAL = 1000
+// A hint has to hold for this many frames before it is shown, so it doesn't flicker
+const HINT_STABLE_FRAMES = 8
+
+export default function LiveTryOn({ handDetector, drawOverlays, onCapture, onClose }: LiveTryOnProps) {
+  const [isStarting, setIsStarting] = useState(true)
+  const [nailsApplied, setNailsApplied] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [hint, setHint] = useState<string | null>(null)
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null) // Visible canvas with live overlays
+  const rawFrameCanvasRef = useRef<HTMLCanvasElement | null>(null) // Last frame without overlays
+  const isFrozenRef = useRef(false)
+  const nailsAppliedRef = useRef(0)
+  const detectedHandsRef = useRef<DetectedHand[]>([]) // Hands found in the last frame
+  const drawOverlaysRef = useRef(drawOverlays)
+
+  // Keep the latest overlay renderer without restarting the camera loop
+  useEffect(() => {
+    drawOverlaysRef.current = drawOverlays
+  }, [drawOverlays])
+
+  useEffect(() => {
+    let cancelled = false
+    let animationFrameId = 0
+    let stream: MediaStream | null = null
+    let imageIssues: PhotoIssue[] = []
+    let lastImageCheck = -Infinity
+    let pendingHint: string | null = null
+    let pendingHintFrames = 0
+
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      setError("Camera access is not supported in your browser.")
+      setIsStarting(false)
+      return
+    }
+
+    rawFrameCanvasRef.current = document.createElement("canvas")
+
+    const updateHint = (hands: DetectedHand[], frame: HTMLCanvasElement) => {
+      const now = performance.now()
+      if (now - lastImageCheck >= IMAGE_CHECK_INTERVAL) {
+        lastImageCheck = now
+        imageIssues = getImageIssues(measureImageQuality(frame))
+      }
+      const nextHint = [...imageIssues, ...getHandIssues(hands, frame.width, frame.height)][0]?.hint ?? null
+      pendingHintFrames = nextHint === pendingHint ? pendingHintFrames + 1 : 1
+      pendingHint = nextHint
+      if (pendingHintFrames === HINT_STABLE_FRAMES) setHint(nextHint)
+    }
+
+    handDetector.setMode("live")
+
+    // Detects on a copy of the frame so the overlays line up with the exact pixels the
+    // landmarks came from, even if the video has moved on in the meantime
+    const processFrame = async (video: HTMLVideoElement) => {
+      const canvas = canvasRef.current
+      const rawCanvas = rawFrameCanvasRef.current
+      if (!canvas || !rawCanvas) return
+
+      const ctx = canvas.getContext("2d")
+      const rawCtx = rawCanvas.getContext("2d")
+      if (!ctx || !rawCtx) return
+
+      const width = video.videoWidth
+      const height = video.videoHeight
+      rawCanvas.width = width
+      rawCanvas.height = height
+      rawCtx.drawImage(video, 0, 0, width, height)
+
+      const hands = await handDetector.detect(rawCanvas)
+      if (cancelled || isFrozenRef.current) return
+
+      canvas.width = width
+      canvas.height = height
+      ctx.drawImage(rawCanvas, 0, 0)
+
+      detectedHandsRef.current = hands
+      updateHint(hands, rawCanvas)
+      const applied = drawOverlaysRef.current(ctx, hands, width, height)
+      if (applied !== nailsAppliedRef.current) {
+        nailsAppliedRef.current = applied
+        setNailsApplied(applied)
+      }
+    }
+
+    const renderLoop = async () => {
+      if (cancelled) return
+      const video = videoRef.current
+      if (video && !isFrozenRef.current && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          await processFrame(video)
+        } catch (err) {
+          console.error("Error detecting hands in video frame:", err)
+        }
+      }
+      if (!cancelled) {
+        animationFrameId = requestAnimationFrame(renderLoop)
+      }
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        const video = videoRef.current
+        if (!video) return
+        video.srcObject = mediaStream
+        await video.play()
+        setIsStarting(false)
+        renderLoop()
+      })
+      .catch((err) => {
+        console.error("Error accessing camera:", err)
+        setError("Failed to access camera. Please check permissions and try again.")
+        setIsStarting(false)
+      })
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(animationFrameId)
+      stream?.getTracks().forEach((track) => track.stop())
+      if (videoRef.current) {
+        videoRef.current.srcObject = null
+      }
+      try {
+        handDetector.setMode("still")
+      } catch (err) {
+        console.error("Error resetting hand detector:", err)
+      }
+    }
+  }, [handDetector])
+
+  const handleFreezeAndSave = () => {
+    const rawCanvas = rawFrameCanvasRef.current
+    if (!rawCanvas || rawCanvas.width === 0) return
+
+    isFrozenRef.current = true
+    try {
+      onCapture(rawCanvas.toDataURL("image/png"), detectedHandsRef.current)
+    } catch (err) {
+      console.error("Error capturing live frame:", err)
+      isFrozenRef.current = false
+      setError("Failed to capture image. Please try again.")
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex flex-col items-center justify-center bg-black/90 p-4">
+      <video ref={videoRef} className="hidden" playsInline muted />
+      <div className="relative flex max-h-[80%] max-w-full items-center justify-center">
+        <canvas ref={canvasRef} className="max-h-[80vh] max-w-full rounded-lg" />
+        {!isStarting && !error && hint && (
+          <div
+            role="status"
+            className="absolute left-1/2 top-3 -translate-x-1/2 rounded-full bg-black/70 px-4 py-1 text-sm font-medium text-white"
+          >
+            {hint}
+          </div>
+        )}
+        {isStarting && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+            <Loader2 className="h-10 w-10 animate-spin text-pink-400" />
+            <p className="mt-2 text-sm">Starting camera...</p>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm text-white">
+        {error
+          ? error
+          : nailsApplied > 0
+            ? `Tracking ${nailsApplied} nails. Move your hand, then freeze the shot you like.`
+            : "Hold your hand in front of the camera with your nails visible."}
+      </p>
+
+      <div className="mt-4 flex gap-3">
+        <Button
+          onClick={handleFreezeAndSave}
+          disabled={isStarting || !!error}
+          className="bg-pink-500 hover:bg-pink-600 text-white"
+        >
+          <Camera className="mr-2 h-4 w-4" /> Freeze &amp; Save
+        </Button>
+        <Button onClick={onClose} variant="secondary">
+          <X className="mr-2 h-4 w-4" /> Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
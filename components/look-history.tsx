@@ -0,0 +1,207 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { deleteLook, exportLooks, importLooks, renameLook } from "@/lib/looks/history"
+import type { SavedLook } from "@/lib/looks/schema"
+import { Check, Download, FolderOpen, Pencil, Trash2, Upload, X } from "lucide-react"
+
+type LookHistoryProps = {
+  looks: SavedLook[]
+  currentLookId: string | null
+  onOpen: (look: SavedLook) => void
+  // Called after looks are renamed, deleted or imported, so the list can be reloaded
+  onLooksChange: () => void
+  onImport: (looks: SavedLook[]) => void
+  onError: (message: string) => void
+}
+
+export default function LookHistory({
+  looks,
+  currentLookId,
+  onOpen,
+  onLooksChange,
+  onImport,
+  onError,
+}: LookHistoryProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const thumbnailUrls = useMemo(
+    (): Record<string, string> =>
+      Object.fromEntries(looks.map((look) => [look.id, URL.createObjectURL(look.thumbnail)])),
+    [looks],
+  )
+  useEffect(() => () => Object.values(thumbnailUrls).forEach((url) => URL.revokeObjectURL(url)), [thumbnailUrls])
+
+  const startRenaming = (look: SavedLook) => {
+    setRenamingId(look.id)
+    setDraftName(look.name)
+  }
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!renamingId) return
+    try {
+      await renameLook(renamingId, draftName)
+      setRenamingId(null)
+      onLooksChange()
+    } catch (err) {
+      console.error("Error renaming look:", err)
+      onError("Failed to rename the look. Please try again.")
+    }
+  }
+
+  const handleDelete = async (look: SavedLook) => {
+    if (!window.confirm(`Delete "${look.name}"? This can't be undone.`)) return
+    try {
+      await deleteLook(look.id)
+      onLooksChange()
+    } catch (err) {
+      console.error("Error deleting look:", err)
+      onError("Failed to delete the look. Please try again.")
+    }
+  }
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    try {
+      const bundle = await exportLooks(looks)
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: "application/json" }))
+      const link = document.createElement("a")
+      link.download = "nail-try-on-looks.json"
+      link.href = url
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("Error exporting looks:", err)
+      onError("Failed to export your looks. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Lets the same file be picked again
+    if (!file) return
+    setIsBusy(true)
+    try {
+      const imported = await importLooks(JSON.parse(await file.text()))
+      onImport(imported)
+      onLooksChange()
+    } catch (err) {
+      console.error("Error importing looks:", err)
+      onError("That file doesn't look like an export of saved looks. Please choose another file.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="w-full text-left">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-pink-600">My Looks</h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={isBusy || looks.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Export All
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} disabled={isBusy}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {looks.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          Your try-ons are saved here automatically, so you can come back to them later.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {looks.map((look) => (
+            <li
+              key={look.id}
+              className={cn(
+                "flex items-center gap-3 rounded-lg border-2 p-2",
+                look.id === currentLookId ? "border-pink-500" : "border-gray-200",
+              )}
+            >
+              <Image
+                src={thumbnailUrls[look.id]}
+                alt=""
+                width={64}
+                height={64}
+                className="h-16 w-16 flex-none rounded object-cover bg-gray-100"
+              />
+              <div className="min-w-0 flex-1">
+                {renamingId === look.id ? (
+                  <form onSubmit={handleRename} className="flex items-center gap-1">
+                    <Input
+                      value={draftName}
+                      onChange={(event) => setDraftName(event.target.value)}
+                      aria-label="Look name"
+                      autoFocus
+                      className="h-8"
+                    />
+                    <Button type="submit" size="icon" variant="ghost" aria-label="Save name">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Cancel renaming"
+                      onClick={() => setRenamingId(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <p className="truncate font-medium text-gray-800">{look.name}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {new Date(look.updatedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                </p>
+              </div>
+              <div className="flex flex-none gap-1">
+                <Button size="sm" onClick={() => onOpen(look)} className="bg-pink-500 hover:bg-pink-600 text-white">
+                  <FolderOpen className="mr-2 h-4 w-4" /> Open
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Rename ${look.name}`}
+                  onClick={() => startRenaming(look)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Delete ${look.name}`}
+                  onClick={() => handleDelete(look)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import NailAdjustmentLayer from "@/components/nail-adjustment-layer"
+import { cn } from "@/lib/utils"
+import { renderDesignSwatches } from "@/lib/designs/swatch"
+import type { NailDesign } from "@/lib/designs/schema"
+import type { NailPlacement } from "@/lib/nail-overlay"
+import { setNailAdjustment, type HandNailAdjustments } from "@/lib/nail-adjustments"
+import { HAND_SIDE_LABELS, getOppositeSide, type HandSide } from "@/lib/handedness"
+import {
+  FINGERS,
+  FINGER_LABELS,
+  MANICURE_PRESETS,
+  assignFingerDesign,
+  getPrimaryDesignId,
+  type Finger,
+  type HandManicures,
+  type ManicurePreset,
+} from "@/lib/manicure"
+import { Move, RotateCcw } from "lucide-react"
+
+type ManicureEditorProps = {
+  imageSrc: string
+  imageWidth: number
+  imageHeight: number
+  placements: NailPlacement[]
+  handManicures: HandManicures
+  detectedSides: HandSide[]
+  designs: NailDesign[]
+  onChange: (handManicures: HandManicures) => void
+  adjustments: HandNailAdjustments
+  onAdjustmentsChange: (adjustments: HandNailAdjustments) => void
+}
+
+export default function ManicureEditor({
+  imageSrc,
+  imageWidth,
+  imageHeight,
+  placements,
+  handManicures,
+  detectedSides,
+  designs,
+  onChange,
+  adjustments,
+  onAdjustmentsChange,
+}: ManicureEditorProps) {
+  const [activeSide, setActiveSide] = useState<HandSide>(detectedSides[0] ?? "right")
+  const [selectedFinger, setSelectedFinger] = useState<Finger | null>(null)
+  const [activeDesignId, setActiveDesignId] = useState(handManicures[activeSide].thumb)
+  const [swatches, setSwatches] = useState<Record<string, string>>({})
+  const [isAdjusting, setIsAdjusting] = useState(false)
+
+  const manicure = handManicures[activeSide]
+
+  // Follow the detected hands when a new photo comes in
+  useEffect(() => {
+    if (detectedSides.length > 0 && !detectedSides.includes(activeSide)) {
+      setActiveSide(detectedSides[0])
+    }
+  }, [detectedSides, activeSide])
+
+  // Design textures are canvases, so turn them into image URLs for the palette
+  useEffect(() => {
+    let cancelled = false
+    renderDesignSwatches(designs)
+      .then((rendered) => {
+        if (!cancelled) setSwatches(rendered)
+      })
+      .catch((err) => {
+        console.error("Error rendering design swatches:", err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [designs])
+
+  const handleDesignClick = (designId: string) => {
+    setActiveDesignId(designId)
+    if (selectedFinger) {
+      onChange({ ...handManicures, [activeSide]: assignFingerDesign(manicure, selectedFinger, designId) })
+    }
+  }
+
+  const handleNailClick = (placement: Pick<NailPlacement, "side" | "finger">) => {
+    setActiveSide(placement.side)
+    setSelectedFinger(placement.finger)
+  }
+
+  const handleCopyToOtherHand = () => {
+    onChange({ ...handManicures, [getOppositeSide(activeSide)]: manicure })
+  }
+
+  const handleResetNail = () => {
+    if (selectedFinger) onAdjustmentsChange(setNailAdjustment(adjustments, activeSide, selectedFinger, null))
+  }
+
+  const hasAdjustments = Object.values(adjustments).some((hand) => hand && Object.keys(hand).length > 0)
+  const isSelectedAdjusted = !!selectedFinger && !!adjustments[activeSide]?.[selectedFinger]
+
+  const handlePresetClick = (preset: ManicurePreset) => {
+    const designIds = designs.map((design) => design.id)
+    const primary = getPrimaryDesignId(manicure)
+    // An accent needs a second design, so fall back to the next one in the catalog
+    const accent =
+      activeDesignId !== primary || preset.id === "all-same" || designIds.length < 2
+        ? activeDesignId
+        : designIds[(designIds.indexOf(primary) + 1) % designIds.length]
+    onChange({ ...handManicures, [activeSide]: preset.apply({ primary, accent, designIds }) })
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="relative inline-block border-2 border-pink-300 rounded-lg overflow-hidden shadow-md">
+        <Image
+          src={imageSrc}
+          alt="Processed nail design"
+          width={600}
+          height={400}
+          className="max-w-full h-auto"
+        />
+        {isAdjusting ? (
+          <NailAdjustmentLayer
+            imageWidth={imageWidth}
+            imageHeight={imageHeight}
+            placements={placements}
+            adjustments={adjustments}
+            selected={selectedFinger ? { side: activeSide, finger: selectedFinger } : null}
+            onSelect={handleNailClick}
+            onChange={onAdjustmentsChange}
+          />
+        ) : (
+          placements.map((placement) => {
+            const isSelected = activeSide === placement.side && selectedFinger === placement.finger
+            return (
+              <button
+                key={`${placement.side}-${placement.finger}`}
+                type="button"
+                title={`Edit ${HAND_SIDE_LABELS[placement.side].toLowerCase()} ${FINGER_LABELS[placement.finger].toLowerCase()} nail`}
+                aria-pressed={isSelected}
+                onClick={() => handleNailClick(placement)}
+                className={cn(
+                  "absolute rounded-full border-2 -translate-x-1/2 -translate-y-1/2 transition-colors",
+                  isSelected ? "border-pink-500 bg-pink-500/20" : "border-white/70 hover:border-pink-400",
+                )}
+                style={{
+                  left: `${(placement.centerX / imageWidth) * 100}%`,
+                  top: `${(placement.centerY / imageHeight) * 100}%`,
+                  width: `${(Math.max(placement.width, placement.height) / imageWidth) * 100}%`,
+                  aspectRatio: "1",
+                }}
+              />
+            )
+          })
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          size="sm"
+          variant={isAdjusting ? "default" : "outline"}
+          aria-pressed={isAdjusting}
+          onClick={() => setIsAdjusting((adjusting) => !adjusting)}
+          className={cn(isAdjusting && "bg-pink-500 hover:bg-pink-600 text-white")}
+        >
+          <Move className="mr-2 h-4 w-4" /> {isAdjusting ? "Done Adjusting" : "Adjust Nails"}
+        </Button>
+        {isAdjusting && (
+          <>
+            <Button size="sm" variant="ghost" onClick={handleResetNail} disabled={!isSelectedAdjusted}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Reset Nail
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => onAdjustmentsChange({})} disabled={!hasAdjustments}>
+              Reset All
+            </Button>
+          </>
+        )}
+      </div>
+      {isAdjusting && (
+        <p className="text-sm text-gray-600 -mt-2">
+          Drag a nail to move it, the round handle to turn it and the square one to resize it
+        </p>
+      )}
+
+      <div className="w-full">
+        {detectedSides.length > 1 && (
+          <div className="flex justify-center gap-2 mb-3">
+            {detectedSides.map((side) => (
+              <Button
+                key={side}
+                size="sm"
+                variant={activeSide === side ? "default" : "outline"}
+                onClick={() => setActiveSide(side)}
+                className={cn(activeSide === side && "bg-pink-500 hover:bg-pink-600 text-white")}
+              >
+                {HAND_SIDE_LABELS[side]}
+              </Button>
+            ))}
+            <Button size="sm" variant="ghost" onClick={handleCopyToOtherHand}>
+              Copy to {HAND_SIDE_LABELS[getOppositeSide(activeSide)].toLowerCase()}
+            </Button>
+          </div>
+        )}
+        <p className="text-sm text-gray-600 mb-2">
+          {selectedFinger
+            ? `Pick a design for the ${HAND_SIDE_LABELS[activeSide].toLowerCase()} ${FINGER_LABELS[selectedFinger].toLowerCase()} nail`
+            : "Tap a nail on the photo to change its design, or choose a preset"}
+        </p>
+        <div className="flex flex-wrap justify-center gap-2 mb-3">
+          {FINGERS.map((finger) => (
+            <Button
+              key={finger}
+              size="sm"
+              variant={selectedFinger === finger ? "default" : "outline"}
+              onClick={() => setSelectedFinger(finger)}
+              className={cn(selectedFinger === finger && "bg-pink-500 hover:bg-pink-600 text-white")}
+            >
+              {FINGER_LABELS[finger]}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-center gap-2 mb-3">
+          {designs.map((design) => (
+            <button
+              key={design.id}
+              type="button"
+              title={design.name}
+              onClick={() => handleDesignClick(design.id)}
+              className={cn(
+                "h-14 w-14 rounded-lg border-2 bg-gray-50 p-1",
+                activeDesignId === design.id ? "border-pink-500" : "border-gray-200 hover:border-pink-300",
+              )}
+            >
+              {swatches[design.id] && (
+                <Image
+                  src={swatches[design.id]}
+                  alt={design.name}
+                  width={48}
+                  height={48}
+                  className="h-full w-full object-contain"
+                />
+              )}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-center gap-2">
+          {MANICURE_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              size="sm"
+              variant="outline"
+              title={preset.description}
+              onClick={() => handlePresetClick(preset)}
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
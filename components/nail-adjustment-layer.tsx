@@ -0,0 +1,226 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { FINGER_LABELS, type Finger } from "@/lib/manicure"
+import { HAND_SIDE_LABELS, type HandSide } from "@/lib/handedness"
+import type { NailPlacement } from "@/lib/nail-overlay"
+import {
+  IDENTITY_ADJUSTMENT,
+  MAX_NAIL_SCALE,
+  MIN_NAIL_SCALE,
+  adjustNailPose,
+  getDetectedNailPose,
+  setNailAdjustment,
+  type HandNailAdjustments,
+  type NailAdjustment,
+  type NailPose,
+} from "@/lib/nail-adjustments"
+import type { Point2D } from "@/lib/nail-geometry"
+
+type NailAdjustmentLayerProps = {
+  imageWidth: number
+  imageHeight: number
+  placements: NailPlacement[]
+  adjustments: HandNailAdjustments
+  selected: { side: HandSide; finger: Finger } | null
+  onSelect: (nail: { side: HandSide; finger: Finger }) => void
+  onChange: (adjustments: HandNailAdjustments) => void
+}
+
+type DragMode = "move" | "rotate" | "scale"
+
+type Drag = {
+  mode: DragMode
+  side: HandSide
+  finger: Finger
+  pointerId: number
+  start: Point2D
+  center: Point2D // Nail center when the drag started
+  adjustment: NailAdjustment // Adjustment when the drag started
+}
+
+// On-screen size of the handles, in CSS pixels
+const HANDLE_RADIUS = 9
+const ROTATE_HANDLE_GAP = 22
+
+export default function NailAdjustmentLayer({
+  imageWidth,
+  imageHeight,
+  placements,
+  adjustments,
+  selected,
+  onSelect,
+  onChange,
+}: NailAdjustmentLayerProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+  // Image pixels per CSS pixel, so handles keep their size however large the photo is
+  const [imageScale, setImageScale] = useState(1)
+
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const observer = new ResizeObserver(() => {
+      const { width } = svg.getBoundingClientRect()
+      if (width > 0) setImageScale(imageWidth / width)
+    })
+    observer.observe(svg)
+    return () => observer.disconnect()
+  }, [imageWidth])
+
+  const toImagePoint = (event: React.PointerEvent): Point2D => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * imageWidth,
+      y: ((event.clientY - rect.top) / rect.height) * imageHeight,
+    }
+  }
+
+  // Placements report where the last render put each nail; the handles follow the
+  // current adjustments straight away instead of waiting for the next render
+  const getPose = (placement: NailPlacement): NailPose => {
+    const detected = getDetectedNailPose(placement, placement.adjustment)
+    const adjustment = adjustments[placement.side]?.[placement.finger]
+    return adjustment ? adjustNailPose(detected, adjustment) : detected
+  }
+
+  const handlePointerDown = (event: React.PointerEvent, placement: NailPlacement, mode: DragMode) => {
+    event.stopPropagation()
+    const pose = getPose(placement)
+    svgRef.current?.setPointerCapture(event.pointerId)
+    dragRef.current = {
+      mode,
+      side: placement.side,
+      finger: placement.finger,
+      pointerId: event.pointerId,
+      start: toImagePoint(event),
+      center: { x: pose.centerX, y: pose.centerY },
+      adjustment: adjustments[placement.side]?.[placement.finger] ?? IDENTITY_ADJUSTMENT,
+    }
+    onSelect({ side: placement.side, finger: placement.finger })
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+
+    const point = toImagePoint(event)
+    const { start, center, adjustment } = drag
+    let next: NailAdjustment
+    switch (drag.mode) {
+      case "move":
+        next = {
+          ...adjustment,
+          offsetX: adjustment.offsetX + point.x - start.x,
+          offsetY: adjustment.offsetY + point.y - start.y,
+        }
+        break
+      case "rotate": {
+        const turn =
+          Math.atan2(point.y - center.y, point.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x)
+        next = { ...adjustment, rotation: adjustment.rotation + turn }
+        break
+      }
+      case "scale": {
+        const startDistance = Math.hypot(start.x - center.x, start.y - center.y)
+        const distance = Math.hypot(point.x - center.x, point.y - center.y)
+        if (startDistance === 0) return
+        const scale = (adjustment.scale * distance) / startDistance
+        next = { ...adjustment, scale: Math.min(Math.max(scale, MIN_NAIL_SCALE), MAX_NAIL_SCALE) }
+        break
+      }
+    }
+    onChange(setNailAdjustment(adjustments, drag.side, drag.finger, next))
+  }
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (dragRef.current?.pointerId !== event.pointerId) return
+    svgRef.current?.releasePointerCapture(event.pointerId)
+    dragRef.current = null
+  }
+
+  const handleRadius = HANDLE_RADIUS * imageScale
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 h-full w-full touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {placements.map((placement) => {
+        const { centerX, centerY, width, height, angle } = getPose(placement)
+        const isSelected = selected?.side === placement.side && selected.finger === placement.finger
+        const label = `${HAND_SIDE_LABELS[placement.side]} ${FINGER_LABELS[placement.finger].toLowerCase()} nail`
+        // Drawn along the nail: +x points to the free edge, +y across the nail
+        return (
+          <g
+            key={`${placement.side}-${placement.finger}`}
+            transform={`translate(${centerX} ${centerY}) rotate(${(angle * 180) / Math.PI})`}
+            className={cn(isSelected ? "text-pink-500" : "text-white")}
+          >
+            <title>{label}</title>
+            <rect
+              x={-height / 2}
+              y={-width / 2}
+              width={height}
+              height={width}
+              rx={width / 2}
+              fill="currentColor"
+              fillOpacity={isSelected ? 0.25 : 0.1}
+              stroke="currentColor"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              className="cursor-move"
+              onPointerDown={(event) => handlePointerDown(event, placement, "move")}
+            />
+            {isSelected && (
+              <>
+                <line
+                  x1={height / 2}
+                  y1={0}
+                  x2={height / 2 + ROTATE_HANDLE_GAP * imageScale}
+                  y2={0}
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <circle
+                  cx={height / 2 + ROTATE_HANDLE_GAP * imageScale}
+                  cy={0}
+                  r={handleRadius}
+                  fill="white"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  className="cursor-grab"
+                  aria-label={`Rotate ${label.toLowerCase()}`}
+                  onPointerDown={(event) => handlePointerDown(event, placement, "rotate")}
+                />
+                <rect
+                  x={-height / 2 - handleRadius}
+                  y={width / 2 - handleRadius}
+                  width={handleRadius * 2}
+                  height={handleRadius * 2}
+                  fill="white"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  className="cursor-nwse-resize"
+                  aria-label={`Resize ${label.toLowerCase()}`}
+                  onPointerDown={(event) => handlePointerDown(event, placement, "scale")}
+                />
+              </>
+            )}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
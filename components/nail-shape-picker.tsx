@@ -0,0 +1,61 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { MAX_NAIL_LENGTH, NAIL_SHAPES, type NailShapeOptions } from "@/lib/designs/schema"
+import { NAIL_SHAPE_LABELS } from "@/lib/designs/shape"
+
+type NailShapePickerProps = {
+  // null wears every design in its own suggested shape
+  value: NailShapeOptions | null
+  onChange: (value: NailShapeOptions | null) => void
+}
+
+function formatLength(length: number): string {
+  return length === 0 ? "Natural length" : `+${Math.round(length * 100)}% extension`
+}
+
+export default function NailShapePicker({ value, onChange }: NailShapePickerProps) {
+  const length = value?.length ?? 0
+
+  return (
+    <div className="w-full">
+      <p className="text-sm text-gray-600 mb-2">Nail shape</p>
+      <div className="flex flex-wrap justify-center gap-2 mb-3">
+        <Button
+          size="sm"
+          variant={value === null ? "default" : "outline"}
+          onClick={() => onChange(null)}
+          className={cn(value === null && "bg-pink-500 hover:bg-pink-600 text-white")}
+        >
+          As Designed
+        </Button>
+        {NAIL_SHAPES.map((shape) => (
+          <Button
+            key={shape}
+            size="sm"
+            variant={value?.shape === shape ? "default" : "outline"}
+            onClick={() => onChange({ shape, length })}
+            className={cn(value?.shape === shape && "bg-pink-500 hover:bg-pink-600 text-white")}
+          >
+            {NAIL_SHAPE_LABELS[shape]}
+          </Button>
+        ))}
+      </div>
+      <label className="block max-w-xs mx-auto text-sm text-gray-600">
+        {formatLength(length)}
+        <input
+          type="range"
+          min={0}
+          max={MAX_NAIL_LENGTH}
+          step={0.1}
+          value={length}
+          onChange={(event) =>
+            onChange({ shape: value?.shape ?? "natural", length: Number(event.target.value) })
+          }
+          className="w-full accent-pink-500"
+        />
+      </label>
+    </div>
+  )
+}
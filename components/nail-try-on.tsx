@@ -3,34 +3,101 @@
 import type React from "react"
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react"
-import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { Loader2, Download, RefreshCw, Share2, Sparkles, AlertTriangle, Camera } from "lucide-react"
-import type { Hands, Results as HandsResults } from "@mediapipe/hands"
-
-// Define a type for the global Hands object if it's not already typed
-declare global {
-  interface Window {
-    Hands: any // Replace 'any' with a more specific type if available
-    drawConnectors: any
-    drawLandmarks: any
-  }
-}
-
-// Use the provided image URL
+import { cn } from "@/lib/utils"
+import LiveTryOn from "@/components/live-try-on"
+import ManicureEditor from "@/components/manicure-editor"
+import DesignCreator from "@/components/design-creator"
+import NailShapePicker from "@/components/nail-shape-picker"
+import BeforeAfterComparison from "@/components/before-after-comparison"
+import DesignGrid from "@/components/design-grid"
+import DesignGallery from "@/components/design-gallery"
+import LookHistory from "@/components/look-history"
+import CameraCapture from "@/components/camera-capture"
+import ExportDialog from "@/components/export-dialog"
+import { FINGERS, createUniformHandManicures, getPrimaryDesignId, type HandManicures } from "@/lib/manicure"
+import { HAND_SIDE_LABELS, type DetectedHand } from "@/lib/handedness"
+import type { HandNailAdjustments } from "@/lib/nail-adjustments"
+import { loadCustomDesigns, saveCustomDesign } from "@/lib/designs/custom"
+import { getDesignTexture, listDesigns, registerCustomDesign } from "@/lib/designs/registry"
+import { getDesignColors } from "@/lib/designs/gallery"
+import { isCustomDesignId, type NailDesign, type NailShapeOptions } from "@/lib/designs/schema"
+import {
+  createLookId,
+  createLookName,
+  createLookThumbnail,
+  getLook,
+  listLooks,
+  saveLook,
+} from "@/lib/looks/history"
+import type { SavedLook } from "@/lib/looks/schema"
+import { fetchSharedLook, shareLook } from "@/lib/looks/share"
+import { blobToDataUrl, canvasToBlob, type TryOnCanvas } from "@/lib/try-on/canvas"
+import { cacheHands, getCachedHands, getPhotoKey } from "@/lib/try-on/detection-cache"
+import type { TryOnPlacement, TryOnRenderRequest, TryOnRenderResult, TryOnStage } from "@/lib/try-on/protocol"
+import { drawTryOnOverlays } from "@/lib/try-on/render"
+import { createTryOnWorkerClient, type TryOnWorkerClient } from "@/lib/try-on/worker-client"
+import { registerServiceWorker } from "@/lib/service-worker"
+import { loadDrawingUtils, type DrawingUtils, type LoadProgress } from "@/lib/mediapipe-loader"
+import { getPhotoFileError, isHeicFile, type IngestedPhoto } from "@/lib/photo-ingest"
+import type { PhotoIssue } from "@/lib/photo-quality"
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPORT_FORMAT_DETAILS,
+  getExportFormat,
+  type ExportSettings,
+} from "@/lib/export-image"
+import {
+  Loader2,
+  Download,
+  RefreshCw,
+  Share2,
+  Sparkles,
+  AlertTriangle,
+  Camera,
+  Video,
+  Bug,
+  Scissors,
+  SunMedium,
+  Columns2,
+  LayoutGrid,
+  History,
+  Lightbulb,
+  Copy,
+} from "lucide-react"
+
+// The first photo offered when creating a design
 const POST_IMAGE_URL = "/images/colorful-french-tips.jpg"
 
-// Define nail design types
-type NailDesign = {
-  id: string
-  name: string
-  description: string
-  generateDesign: () => HTMLImageElement
+// Longest side of the thumbnails when comparing designs
+const DESIGN_GRID_THUMBNAIL_SIZE = 320
+
+// Shared so that clearing adjustments that are already clear doesn't trigger a re-render
+const NO_NAIL_ADJUSTMENTS: HandNailAdjustments = {}
+
+const RENDER_STAGE_MESSAGES: Record<TryOnStage, string> = {
+  checking: "Checking photo quality...",
+  detecting: "Detecting hands...",
+  compositing: "Applying nail designs...",
 }
 
+// Only Safari decodes HEIC, the default format of iPhone photos
+const HEIC_UNSUPPORTED_MESSAGE =
+  "This browser can't open HEIC photos. Please convert the photo to JPEG, or on your iPhone choose Settings > Camera > Formats > Most Compatible."
+
+// Edits are saved to the look history once they have settled for this long
+const LOOK_SAVE_DELAY = 800
+
+// Shared results are uploaded as JPEG at the working size, small enough to load quickly
+const SHARE_QUALITY = 0.85
+
 export default function NailTryOn() {
+  // Designs come from the registry, which validates the catalog when it is first imported.
+  // Refreshed whenever a custom design is registered.
+  const [nailDesigns, setNailDesigns] = useState<NailDesign[]>(() => listDesigns())
+
   const [userImage, setUserImage] = useState<string | null>(null)
   const [processedImage, setProcessedImage] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
@@ -38,597 +105,734 @@ export default function NailTryOn() {
   const [statusMessage, setStatusMessage] = useState<string>("Click 'Try This Design' to start.")
 
   const [isDesignSelected, setIsDesignSelected] = useState(false)
-  const [handsModel, setHandsModel] = useState<Hands | null>(null)
-  const [sampleNailDesignImg, setSampleNailDesignImg] = useState<HTMLImageElement | null>(null)
-  const [selectedDesignIndex, setSelectedDesignIndex] = useState(0)
+  const [isCreatingDesign, setIsCreatingDesign] = useState(false)
+  const [tryOnWorker, setTryOnWorker] = useState<TryOnWorkerClient | null>(null)
+  const [selectedDesignId, setSelectedDesignId] = useState(() => listDesigns()[0]?.id ?? "")
+  const [designImages, setDesignImages] = useState<TryOnCanvas[]>([])
+  const [isLiveMode, setIsLiveMode] = useState(false)
+  const [isCameraOpen, setIsCameraOpen] = useState(false)
+  const [isDraggingPhoto, setIsDraggingPhoto] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [handManicures, setHandManicures] = useState<HandManicures>(() =>
+    createUniformHandManicures(nailDesigns[0]?.id ?? ""),
+  )
+  // null wears each design in its own shape
+  const [nailShape, setNailShape] = useState<NailShapeOptions | null>(null)
+  const [nailPlacements, setNailPlacements] = useState<TryOnPlacement[]>([])
+  const [resultSize, setResultSize] = useState({ width: 0, height: 0 })
+  const [showNailMasks, setShowNailMasks] = useState(false)
+  // What the result area shows: the editor, the photo before and after, or a grid of designs
+  const [resultView, setResultView] = useState<"edit" | "before-after" | "designs">("edit")
+  // Off shows the raw overlay colors, to compare against the lighting-matched ones
+  const [matchLighting, setMatchLighting] = useState(true)
+  // Nails the user moved by hand. Kept apart from the manicures so they survive design changes.
+  const [nailAdjustments, setNailAdjustments] = useState<HandNailAdjustments>(NO_NAIL_ADJUSTMENTS)
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  const [drawingUtils, setDrawingUtils] = useState<DrawingUtils | null>(null)
+  const [savedLooks, setSavedLooks] = useState<SavedLook[]>([])
+  const [isShowingLooks, setIsShowingLooks] = useState(false)
+  // What would make the current photo work better, from the worker's checks
+  const [photoIssues, setPhotoIssues] = useState<PhotoIssue[]>([])
+  // The upright photo at full size, for saving the result. Null when only the working copy
+  // exists, e.g. for live captures and saved looks.
+  const [fullSizePhoto, setFullSizePhoto] = useState<{ blob: Blob; width: number; height: number } | null>(null)
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
 
-  const userImageCanvasRef = useRef<HTMLCanvasElement>(null) // Hidden canvas for processing user image
   const resultCanvasRef = useRef<HTMLCanvasElement>(null) // Visible canvas for result
-  const postImageRef = useRef<HTMLImageElement | null>(null)
-
-  // Generate a colorful French tip nail design programmatically
-  const generateColorfulFrenchTip = useCallback((color: string) => {
-    try {
-      const canvas = document.createElement("canvas")
-      canvas.width = 200
-      canvas.height = 200
-      const ctx = canvas.getContext("2d")
-      if (ctx) {
-        // Create a transparent background
-        ctx.fillStyle = "rgba(255, 255, 255, 0)"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-        // Create a nail shape (oval)
-        ctx.beginPath()
-        ctx.ellipse(100, 100, 80, 50, 0, 0, 2 * Math.PI)
-        ctx.fillStyle = "rgba(255, 235, 235, 0.6)" // Very light pink base
-        ctx.fill()
-
-        // Add French tip
-        ctx.beginPath()
-        ctx.ellipse(100, 60, 70, 20, 0, 0, Math.PI, true)
-        ctx.fillStyle = "rgba(255, 255, 255, 0.9)" // White tip
-        ctx.fill()
-
-        // Add colored outline to the tip
-        ctx.beginPath()
-        ctx.ellipse(100, 60, 70, 20, 0, 0, Math.PI, true)
-        ctx.lineWidth = 5
-        ctx.strokeStyle = color
-        ctx.stroke()
-
-        // Add shine effect
-        ctx.beginPath()
-        ctx.ellipse(70, 110, 10, 40, Math.PI / 4, 0, 2 * Math.PI)
-        ctx.fillStyle = "rgba(255, 255, 255, 0.3)"
-        ctx.fill()
-
-        // Convert to image
-        const designImg = new window.Image()
-        designImg.src = canvas.toDataURL("image/png")
-        return designImg
-      }
-    } catch (err) {
-      console.error("Error generating nail design:", err)
-    }
-
-    // Fallback if canvas context fails
-    const fallbackImg = new window.Image()
-    fallbackImg.src =
-      "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=="
-    return fallbackImg
-  }, [])
-
-  // Define available nail designs
-  const nailDesigns = useMemo(
-    () => [
-      {
-        id: "purple-french",
-        name: "Purple French Tip",
-        description: "Elegant French tip with purple outline",
-        generateDesign: () => generateColorfulFrenchTip("rgba(147, 112, 219, 0.9)"),
-      },
-      {
-        id: "blue-french",
-        name: "Blue French Tip",
-        description: "Classic French tip with blue outline",
-        generateDesign: () => generateColorfulFrenchTip("rgba(65, 105, 225, 0.9)"),
-      },
-      {
-        id: "pink-french",
-        name: "Pink French Tip",
-        description: "Stylish French tip with pink outline",
-        generateDesign: () => generateColorfulFrenchTip("rgba(255, 105, 180, 0.9)"),
-      },
-      {
-        id: "green-french",
-        name: "Green French Tip",
-        description: "Fresh French tip with green outline",
-        generateDesign: () => generateColorfulFrenchTip("rgba(50, 205, 50, 0.9)"),
-      },
-      {
-        id: "orange-french",
-        name: "Orange French Tip",
-        description: "Vibrant French tip with orange outline",
-        generateDesign: () => generateColorfulFrenchTip("rgba(255, 165, 0, 0.9)"),
-      },
-    ],
-    [generateColorfulFrenchTip],
+  const selectedDesign = nailDesigns.find((design) => design.id === selectedDesignId)
+  const detectedSides = useMemo(
+    () => Array.from(new Set(nailPlacements.map((placement) => placement.side))),
+    [nailPlacements],
   )
 
-  const loadMediaPipeHands = useCallback(() => {
-    try {
-      const script = document.createElement("script")
-      script.src = "https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.min.js"
-      script.async = true
-      script.crossOrigin = "anonymous"
-
-      script.onload = () => {
-        try {
-          const drawingUtilsScript = document.createElement("script")
-          drawingUtilsScript.src = "https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils/drawing_utils.js"
-          drawingUtilsScript.async = true
-          drawingUtilsScript.crossOrigin = "anonymous"
-
-          drawingUtilsScript.onload = () => {
-            try {
-              if (typeof window.Hands === "undefined") {
-                console.error("MediaPipe Hands not available")
-                setError("MediaPipe Hands library failed to load. Please try refreshing the page.")
-                return
-              }
-
-              const hands = new window.Hands({
-                locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-              })
-
-              hands.setOptions({
-                maxNumHands: 1,
-                modelComplexity: 1,
-                minDetectionConfidence: 0.7,
-                minTrackingConfidence: 0.7,
-              })
-
-              setHandsModel(hands)
-              setStatusMessage("Ready to try designs. Upload your hand photo!")
-            } catch (err) {
-              console.error("Error initializing MediaPipe Hands:", err)
-              setError("Failed to initialize hand detection. Please try refreshing the page.")
-            }
-          }
-
-          drawingUtilsScript.onerror = () => {
-            console.error("Failed to load MediaPipe drawing utils")
-            setError("Failed to load required libraries. Please check your internet connection.")
+  // The worker keeps the last photo, so manicure edits only send the new manicure
+  const hasPhotoRef = useRef(false)
+  const detectedHandsRef = useRef<DetectedHand[]>([])
+  // Only the latest render is shown; results of superseded ones are dropped
+  const renderRequestRef = useRef(0)
+  // Design from a `/?design=<id>` link, until it has been selected. Undefined until the URL is read.
+  const deepLinkedDesignRef = useRef<string | null | undefined>(undefined)
+  // Look from a `/?look=<id>` share link, until it has been loaded. Undefined until the URL is read.
+  const sharedLookIdRef = useRef<string | null | undefined>(undefined)
+  // Dragging a nail changes the adjustments on every pointer move. Re-renders wait for the
+  // one in flight and only the latest is sent, so the worker's queue never backs up.
+  const isRerenderingRef = useRef(false)
+  // Loading a photo resets state, which asks for a re-render. Re-renders wait for the photo's
+  // render too, so they can't supersede it and drop its hands and photo issues.
+  const photoRenderRequestRef = useRef<number | null>(null)
+  const hasQueuedRerenderRef = useRef(false)
+  const rerenderRef = useRef<() => void>(() => {})
+  // The saved look the current photo belongs to. Null until the first save of a new photo.
+  const currentLookIdRef = useRef<string | null>(null)
+
+  // Detection and compositing run in a worker so large photos don't freeze the page
+  useEffect(() => {
+    let cancelled = false
+    let client: TryOnWorkerClient | null = null
+
+    // The hand model is downloaded once the service worker is in place, so it gets cached
+    registerServiceWorker().then(() => {
+      if (cancelled) return
+      const started = createTryOnWorkerClient({
+        options: {
+          maxNumHands: 2,
+          modelComplexity: 1,
+          minDetectionConfidence: 0.7,
+          minTrackingConfidence: 0.7,
+        },
+        onLoadProgress: (progress) => {
+          if (!cancelled) setLoadProgress(progress)
+        },
+      })
+      client = started
+
+      started.ready
+        .then(() => {
+          if (cancelled) return
+          setTryOnWorker(started)
+          setStatusMessage("Ready to try designs. Upload your hand photo!")
+        })
+        .catch((err) => {
+          console.error("Error loading MediaPipe Hands:", err)
+          if (!cancelled) {
+            setError("Failed to load hand detection. Please check your connection and try refreshing the page.")
           }
+        })
+    })
 
-          document.body.appendChild(drawingUtilsScript)
-        } catch (err) {
-          console.error("Error loading drawing utils script:", err)
-          setError("Failed to load required libraries. Please check your internet connection.")
-        }
-      }
-
-      script.onerror = () => {
-        console.error("Failed to load MediaPipe Hands")
-        setError("Failed to load required libraries. Please check your internet connection.")
-      }
-
-      document.body.appendChild(script)
-    } catch (err) {
-      console.error("Error in loadMediaPipeHands:", err)
-      setError("Failed to initialize. Please try refreshing the page.")
+    return () => {
+      cancelled = true
+      client?.terminate()
     }
   }, [])
 
+  // Results are shown through object URLs, which must be released when replaced
   useEffect(() => {
-    loadMediaPipeHands()
-
-    // Generate the selected nail design
-    try {
-      if (nailDesigns && nailDesigns[selectedDesignIndex]) {
-        const designImg = nailDesigns[selectedDesignIndex].generateDesign()
+    return () => {
+      if (processedImage?.startsWith("blob:")) URL.revokeObjectURL(processedImage)
+    }
+  }, [processedImage])
 
-        designImg.onload = () => {
-          setSampleNailDesignImg(designImg)
-          setError(null)
-        }
+  // A share link shows the result it was made from, so edits need a new one
+  useEffect(() => {
+    setShareUrl(null)
+  }, [processedImage])
 
-        designImg.onerror = () => {
-          console.error("Failed to create nail design image")
-          setError("Failed to create nail design. Please try refreshing the page.")
-        }
-      }
+  useEffect(() => {
+    // Render the nail design textures
+    try {
+      const textures = nailDesigns
+        .map((design) => getDesignTexture(design.id))
+        .filter((texture): texture is TryOnCanvas => !!texture)
+      setDesignImages(textures)
+      setError(null)
     } catch (err) {
       console.error("Error generating nail design:", err)
       setError("Failed to create nail design. Please try refreshing the page.")
     }
+  }, [nailDesigns])
 
-    // Load the post image to reference
-    try {
-      const img = new Image()
-      img.src = POST_IMAGE_URL
+  // Bring back designs created in earlier visits
+  useEffect(() => {
+    Promise.all(loadCustomDesigns().map((design) => registerCustomDesign(design)))
+      .then(() => setNailDesigns(listDesigns()))
+      .catch((err) => {
+        console.error("Error loading custom designs:", err)
+      })
+  }, [])
 
-      img.onload = () => {
-        postImageRef.current = img
-      }
+  // The worker has its own registry, so it needs the custom designs too
+  useEffect(() => {
+    tryOnWorker?.registerDesigns(loadCustomDesigns())
+  }, [tryOnWorker])
 
-      img.onerror = () => {
-        console.error("Failed to load post image")
-        setError("Failed to load nail design image. Using a placeholder instead.")
-      }
-    } catch (err) {
-      console.error("Error loading post image:", err)
+  // Preselect a linked design. Custom designs are registered after the catalog, so a link
+  // to one waits until it shows up in the list.
+  useEffect(() => {
+    if (deepLinkedDesignRef.current === undefined) {
+      deepLinkedDesignRef.current = new URLSearchParams(window.location.search).get("design")
     }
-
-    return () => {
-      if (handsModel) {
-        try {
-          handsModel.close()
-        } catch (err) {
-          console.error("Error closing MediaPipe Hands:", err)
-        }
-      }
+    const linkedId = deepLinkedDesignRef.current
+    if (linkedId && nailDesigns.some((design) => design.id === linkedId)) {
+      setSelectedDesignId(linkedId)
+      deepLinkedDesignRef.current = null
     }
-  }, [loadMediaPipeHands, selectedDesignIndex, nailDesigns])
+  }, [nailDesigns])
+
+  // Keeps the address bar pointing at the selected design, so it can be shared
+  const handleSelectDesign = useCallback((designId: string) => {
+    setSelectedDesignId(designId)
+    deepLinkedDesignRef.current = null
+    const url = new URL(window.location.href)
+    url.searchParams.set("design", designId)
+    window.history.replaceState(window.history.state, "", url)
+  }, [])
 
   const handleTryThisDesign = useCallback(() => {
     setIsDesignSelected(true)
+    setHandManicures(createUniformHandManicures(selectedDesignId))
     setUserImage(null)
     setProcessedImage(null)
     setError(null)
-    if (handsModel) {
+    hasPhotoRef.current = false
+    if (tryOnWorker) {
       setStatusMessage("Nail design selected! Please upload a photo of your hand.")
     } else {
       setStatusMessage("MediaPipe is loading. Please wait a moment then upload.")
       setIsLoading(true) // Show loader while mediapipe might still be loading
     }
-  }, [handsModel])
+  }, [tryOnWorker, selectedDesignId])
 
-  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    try {
-      if (event && event.target && event.target.files && event.target.files[0]) {
-        const file = event.target.files[0]
-        const reader = new FileReader()
-
-        reader.onload = (readerEvent) => {
-          try {
-            if (readerEvent && readerEvent.target && typeof readerEvent.target.result === "string") {
-              const imageDataUrl = readerEvent.target.result
-              setUserImage(imageDataUrl)
-              setProcessedImage(null)
-              setError(null)
-              setStatusMessage("Processing your image...")
-              processImage(imageDataUrl)
-            } else {
-              setError("Failed to read the image data. Please try another image.")
-            }
-          } catch (err) {
-            console.error("Error in FileReader onload:", err)
-            setError("Failed to process the selected file. Please try another image.")
-          }
+  const handleCreateDesign = useCallback(
+    async (design: NailDesign) => {
+      try {
+        await registerCustomDesign(design)
+      } catch (err) {
+        console.error("Error registering custom design:", err)
+        setError("Failed to create nail design. Please try another photo.")
+        return
+      }
+
+      try {
+        saveCustomDesign(design)
+      } catch (err) {
+        console.error("Error saving custom design:", err)
+        setError("Your design works for now, but it could not be saved for your next visit.")
+      }
+      tryOnWorker?.registerDesigns([design])
+      setNailDesigns(listDesigns())
+      setSelectedDesignId(design.id)
+
+      setIsCreatingDesign(false)
+      setIsDesignSelected(true)
+      setHandManicures(createUniformHandManicures(design.id))
+      setUserImage(null)
+      setProcessedImage(null)
+      hasPhotoRef.current = false
+      setStatusMessage(`"${design.name}" is ready! Please upload a photo of your hand.`)
+    },
+    [tryOnWorker],
+  )
+
+  // Shows a photo composited by the worker
+  const showResult = useCallback(
+    async ({ image, hands, placements }: TryOnRenderResult) => {
+      const resultCanvas = resultCanvasRef.current
+      const ctx = resultCanvas?.getContext("2d")
+      if (!resultCanvas || !ctx) {
+        image.close()
+        setError("Result canvas not ready.")
+        return
+      }
+
+      resultCanvas.width = image.width
+      resultCanvas.height = image.height
+      ctx.drawImage(image, 0, 0)
+      image.close()
+
+      if (hands.length > 0) {
+        // The worker tints the masks; the landmark skeleton comes from MediaPipe's own helpers
+        if (showNailMasks && drawingUtils) {
+          hands.forEach((hand) => {
+            drawingUtils.drawConnectors(ctx, hand.landmarks, drawingUtils.handConnections, {
+              color: "rgba(0, 255, 255, 0.8)",
+              lineWidth: 2,
+            })
+            drawingUtils.drawLandmarks(ctx, hand.landmarks, { color: "rgba(255, 255, 0, 0.9)", radius: 3 })
+          })
         }
 
-        reader.onerror = () => {
-          setError("Failed to read the selected file. Please try another image.")
+        if (placements.length > 0) {
+          const handSummaries = hands.map((hand) => {
+            const nailCount = placements.filter((placement) => placement.side === hand.side).length
+            return `${HAND_SIDE_LABELS[hand.side]}: ${nailCount} ${nailCount === 1 ? "nail" : "nails"}`
+          })
+          setStatusMessage(`Design applied! ${handSummaries.join(", ")}. Check it out.`)
+        } else {
+          setStatusMessage("Could not identify all necessary finger landmarks.")
         }
+        setNailPlacements(placements)
+      } else {
+        setStatusMessage("No hand detected in the image. Check the tips above, then try another photo.")
+        setNailPlacements([])
+      }
+      setResultSize({ width: resultCanvas.width, height: resultCanvas.height })
+      setProcessedImage(URL.createObjectURL(await canvasToBlob(resultCanvas)))
+    },
+    [showNailMasks, drawingUtils],
+  )
 
-        reader.readAsDataURL(file)
+  // Composites the current manicure onto a new photo, or the last one when `photo` has no image
+  // or hands. Anything else in `photo` overrides the current state, for state that was just set.
+  // Resolves with the hands found in the photo, unless the render was superseded.
+  const renderPhoto = useCallback(
+    async (photo: Partial<TryOnRenderRequest> = {}): Promise<DetectedHand[] | undefined> => {
+      if (!tryOnWorker) return
+      const isRerender = !photo.image && !photo.hands
+      if (isRerender && (isRerenderingRef.current || photoRenderRequestRef.current !== null)) {
+        hasQueuedRerenderRef.current = true
+        return
       }
-    } catch (err) {
-      console.error("Error in handleImageUpload:", err)
-      setError("Failed to process the selected file. Please try another image.")
-    }
-  }, [])
+      const requestId = ++renderRequestRef.current
+      if (isRerender) {
+        isRerenderingRef.current = true
+      } else {
+        photoRenderRequestRef.current = requestId
+      }
+      if (photo.image) setPhotoIssues([])
 
-  const handleCameraCapture = useCallback(() => {
-    // Check if getUserMedia is supported
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      setError("Camera access is not supported in your browser.")
-      return
-    }
+      try {
+        const result = await tryOnWorker.render(
+          {
+            manicures: handManicures,
+            nailShape: nailShape ?? undefined,
+            matchLighting,
+            // Adjustments belong to the previous photo until they are cleared
+            adjustments: photo.image ? undefined : nailAdjustments,
+            showMasks: showNailMasks,
+            ...photo,
+          },
+          (stage) => {
+            if (requestId === renderRequestRef.current) setStatusMessage(RENDER_STAGE_MESSAGES[stage])
+          },
+        )
+        if (requestId !== renderRequestRef.current) {
+          result.image.close()
+          return
+        }
+        detectedHandsRef.current = result.hands
+        if (result.issues) setPhotoIssues(result.issues)
+        await showResult(result)
+        return result.hands
+      } catch (err) {
+        console.error("Error rendering nail designs:", err)
+        if (requestId === renderRequestRef.current) {
+          setError("Error applying nail design. Please try another photo.")
+        }
+      } finally {
+        if (requestId === renderRequestRef.current) setIsLoading(false)
+        if (isRerender) {
+          isRerenderingRef.current = false
+        } else if (photoRenderRequestRef.current === requestId) {
+          photoRenderRequestRef.current = null
+        }
+        if (hasQueuedRerenderRef.current && !isRerenderingRef.current && photoRenderRequestRef.current === null) {
+          hasQueuedRerenderRef.current = false
+          rerenderRef.current()
+        }
+      }
+    },
+    [tryOnWorker, handManicures, nailShape, matchLighting, nailAdjustments, showNailMasks, showResult],
+  )
 
-    try {
-      // Create elements for camera capture
-      const videoElement = document.createElement("video")
-      const canvasElement = document.createElement("canvas")
-      const canvasCtx = canvasElement.getContext("2d")
-
-      // Request camera access
-      navigator.mediaDevices
-        .getUserMedia({ video: { facingMode: "environment" } })
-        .then((stream) => {
-          try {
-            // Create a modal for the camera view
-            const modal = document.createElement("div")
-            modal.style.position = "fixed"
-            modal.style.top = "0"
-            modal.style.left = "0"
-            modal.style.width = "100%"
-            modal.style.height = "100%"
-            modal.style.backgroundColor = "rgba(0,0,0,0.9)"
-            modal.style.zIndex = "1000"
-            modal.style.display = "flex"
-            modal.style.flexDirection = "column"
-            modal.style.alignItems = "center"
-            modal.style.justifyContent = "center"
-
-            // Set up video element
-            videoElement.srcObject = stream
-            videoElement.style.maxWidth = "100%"
-            videoElement.style.maxHeight = "80%"
-            videoElement.style.transform = "scaleX(-1)" // Mirror effect
-            videoElement.autoplay = true
-            modal.appendChild(videoElement)
-
-            // Create capture button
-            const captureBtn = document.createElement("button")
-            captureBtn.textContent = "Take Photo"
-            captureBtn.style.margin = "20px"
-            captureBtn.style.padding = "10px 20px"
-            captureBtn.style.backgroundColor = "#f472b6"
-            captureBtn.style.color = "white"
-            captureBtn.style.border = "none"
-            captureBtn.style.borderRadius = "5px"
-            captureBtn.style.cursor = "pointer"
-            modal.appendChild(captureBtn)
-
-            // Create cancel button
-            const cancelBtn = document.createElement("button")
-            cancelBtn.textContent = "Cancel"
-            cancelBtn.style.padding = "10px 20px"
-            cancelBtn.style.backgroundColor = "#6b7280"
-            cancelBtn.style.color = "white"
-            cancelBtn.style.border = "none"
-            cancelBtn.style.borderRadius = "5px"
-            cancelBtn.style.cursor = "pointer"
-            modal.appendChild(cancelBtn)
-
-            // Add modal to document
-            document.body.appendChild(modal)
-
-            // Handle capture button click
-            captureBtn.onclick = () => {
-              try {
-                // Set canvas dimensions to match video
-                canvasElement.width = videoElement.videoWidth
-                canvasElement.height = videoElement.videoHeight
-
-                // Draw the current video frame to canvas
-                if (canvasCtx) {
-                  canvasCtx.drawImage(videoElement, 0, 0, canvasElement.width, canvasElement.height)
-
-                  // Convert canvas to data URL
-                  const imageDataUrl = canvasElement.toDataURL("image/png")
-
-                  // Clean up
-                  videoElement.srcObject = null
-                  stream.getTracks().forEach((track) => {
-                    track.stop()
-                  })
-                  document.body.removeChild(modal)
-
-                  // Process the captured image
-                  setUserImage(imageDataUrl)
-                  setProcessedImage(null)
-                  setError(null)
-                  setStatusMessage("Processing your image...")
-                  processImage(imageDataUrl)
-                }
-              } catch (err) {
-                console.error("Error capturing image:", err)
-                setError("Failed to capture image. Please try again.")
-
-                // Clean up on error
-                try {
-                  videoElement.srcObject = null
-                  stream.getTracks().forEach((track) => {
-                    track.stop()
-                  })
-                  document.body.removeChild(modal)
-                } catch (cleanupErr) {
-                  console.error("Error during cleanup:", cleanupErr)
-                }
-              }
-            }
-
-            // Handle cancel button click
-            cancelBtn.onclick = () => {
-              try {
-                // Clean up
-                videoElement.srcObject = null
-                stream.getTracks().forEach((track) => {
-                  track.stop()
-                })
-                document.body.removeChild(modal)
-              } catch (err) {
-                console.error("Error canceling camera:", err)
-              }
-            }
-          } catch (err) {
-            console.error("Error setting up camera UI:", err)
-            setError("Failed to set up camera interface. Please try again.")
-          }
-        })
-        .catch((err) => {
-          console.error("Error accessing camera:", err)
-          setError("Failed to access camera. Please check permissions and try again.")
-        })
-    } catch (err) {
-      console.error("Error in handleCameraCapture:", err)
-      setError("Failed to initialize camera. Please try again.")
-    }
-  }, [])
+  useEffect(() => {
+    rerenderRef.current = () => renderPhoto()
+  }, [renderPhoto])
+
+  // The landmark skeleton in the debug view needs MediaPipe's drawing utils
+  useEffect(() => {
+    if (!showNailMasks || drawingUtils) return
+    loadDrawingUtils()
+      .then(setDrawingUtils)
+      .catch((err) => {
+        console.error("Failed to load MediaPipe drawing utils:", err)
+      })
+  }, [showNailMasks, drawingUtils])
+
+  // Re-render when the manicure, nail shape, adjustments or view options change after a photo has been processed
+  useEffect(() => {
+    if (hasPhotoRef.current) renderPhoto()
+  }, [renderPhoto])
 
   const processImage = useCallback(
-    async (imageDataUrl: string) => {
-      if (!handsModel || !sampleNailDesignImg) {
+    async (imageDataUrl: string, { isMirrored = false }: { isMirrored?: boolean } = {}) => {
+      if (!tryOnWorker || designImages.length === 0) {
         setError("Models not ready. Please wait or try refreshing.")
         setIsLoading(false)
         return
       }
       setIsLoading(true)
 
+      let image: ImageBitmap
+      let photoKey: string | null
       try {
-        const image = new window.Image()
-        image.crossOrigin = "anonymous"
-        image.src = imageDataUrl
-
-        image.onload = async () => {
-          try {
-            const userCanvas = userImageCanvasRef.current
-            if (!userCanvas) {
-              setError("Canvas not ready.")
-              setIsLoading(false)
-              return
-            }
-            userCanvas.width = image.naturalWidth
-            userCanvas.height = image.naturalHeight
-            const ctx = userCanvas.getContext("2d")
-            if (!ctx) {
-              setError("Could not get canvas context.")
-              setIsLoading(false)
-              return
-            }
-            ctx.drawImage(image, 0, 0)
-
-            handsModel.onResults((results) => {
-              onHandsResults(results, image)
-            })
+        // Decoding into an ImageBitmap happens off the main thread, and the bitmap is
+        // handed to the worker without copying
+        const blob = await (await fetch(imageDataUrl)).blob()
+        image = await createImageBitmap(blob)
+        photoKey = await getPhotoKey(blob)
+      } catch (err) {
+        console.error("Error decoding image:", err)
+        setError("Failed to load user image for processing.")
+        setIsLoading(false)
+        return
+      }
 
-            try {
-              await handsModel.send({ image: userCanvas })
-            } catch (sendError) {
-              console.error("Error sending image to MediaPipe:", sendError)
-              setError("Error processing hand detection. Please try another photo.")
-              setIsLoading(false)
-            }
-          } catch (err) {
-            console.error("Error processing image with MediaPipe:", err)
-            setError("Error processing image. Please try another photo.")
-            setIsLoading(false)
-          }
-        }
+      hasPhotoRef.current = true
+      currentLookIdRef.current = null
+      setNailAdjustments(NO_NAIL_ADJUSTMENTS)
+      // A photo tried before keeps its hands, so only the compositing runs again
+      const cachedHands = photoKey ? getCachedHands(photoKey) : undefined
+      const hands = await renderPhoto({ image, hands: cachedHands, isMirrored })
+      if (photoKey && hands && !cachedHands) cacheHands(photoKey, hands)
+    },
+    [tryOnWorker, designImages, renderPhoto],
+  )
 
-        image.onerror = () => {
-          setError("Failed to load user image for processing.")
-          setIsLoading(false)
-        }
+  // Uploads, drops, pastes and camera shots are turned upright and scaled to a working size first
+  const handlePhotoFile = useCallback(
+    async (file: Blob, { isMirrored = false }: { isMirrored?: boolean } = {}) => {
+      const fileError = getPhotoFileError(file)
+      if (fileError) {
+        setError(fileError)
+        return
+      }
+      if (!tryOnWorker) {
+        setError("Models not ready. Please wait or try refreshing.")
+        return
+      }
+      setError(null)
+      setStatusMessage("Preparing your photo...")
+
+      let photo: IngestedPhoto
+      try {
+        photo = await tryOnWorker.ingestPhoto(file)
       } catch (err) {
-        console.error("Error in processImage:", err)
-        setError("Failed to process image. Please try another photo.")
-        setIsLoading(false)
+        console.error("Error reading photo:", err)
+        setError(
+          isHeicFile(file) ? HEIC_UNSUPPORTED_MESSAGE : "Failed to read the selected file. Please try another image.",
+        )
+        setStatusMessage("Nail design selected! Please upload a photo of your hand.")
+        return
       }
+
+      setFullSizePhoto({ blob: photo.original, width: photo.originalWidth, height: photo.originalHeight })
+      setUserImage(photo.dataUrl)
+      setProcessedImage(null)
+      setStatusMessage("Processing your image...")
+      processImage(photo.dataUrl, { isMirrored })
+    },
+    [tryOnWorker, processImage],
+  )
+
+  const handleImageUpload = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = "" // Lets the same photo be chosen again
+      if (file) handlePhotoFile(file)
+    },
+    [handlePhotoFile],
+  )
+
+  const handlePhotoDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault()
+      setIsDraggingPhoto(false)
+      const file = event.dataTransfer.files[0]
+      if (file) handlePhotoFile(file)
+    },
+    [handlePhotoFile],
+  )
+
+  // Photos can be pasted while the page is waiting for one
+  useEffect(() => {
+    if (!isDesignSelected || userImage) return
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = Array.from(event.clipboardData?.files ?? []).find((item) => item.type.startsWith("image/"))
+      if (!file) return
+      event.preventDefault()
+      handlePhotoFile(file)
+    }
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [isDesignSelected, userImage, handlePhotoFile])
+
+  // Selfie photos are flipped to match the preview, so hand detection is told which way round they are
+  const handleCameraCapture = useCallback(
+    (photo: Blob, isMirrored: boolean) => {
+      handlePhotoFile(photo, { isMirrored })
     },
-    [handsModel, sampleNailDesignImg],
+    [handlePhotoFile],
+  )
+
+  const drawLiveOverlays = useCallback(
+    (ctx: CanvasRenderingContext2D, hands: DetectedHand[], width: number, height: number) =>
+      // Segmentation is too slow to run on every video frame, so live overlays are unmasked
+      drawTryOnOverlays(ctx, hands, handManicures, width, height, { nailShape: nailShape ?? undefined }).length,
+    [handManicures, nailShape],
   )
 
-  const onHandsResults = useCallback(
-    (results: HandsResults, originalImage: HTMLImageElement) => {
+  const handleStartLiveMode = useCallback(() => {
+    if (!tryOnWorker) {
+      setError("Models not ready. Please wait or try refreshing.")
+      return
+    }
+    setError(null)
+    setIsLiveMode(true)
+  }, [tryOnWorker])
+
+  const handleLiveCapture = useCallback(
+    async (rawImageDataUrl: string, hands: DetectedHand[]) => {
+      setIsLiveMode(false)
+      setFullSizePhoto(null)
+      setUserImage(rawImageDataUrl)
+      setProcessedImage(null)
+      setError(null)
+      setIsLoading(true)
+
       try {
-        const resultCanvas = resultCanvasRef.current
-        if (!resultCanvas || !sampleNailDesignImg) {
-          setError("Result canvas or nail design not ready.")
-          setIsLoading(false)
-          return
-        }
+        const image = await createImageBitmap(await (await fetch(rawImageDataUrl)).blob())
+        hasPhotoRef.current = true
+        currentLookIdRef.current = null
+        setNailAdjustments(NO_NAIL_ADJUSTMENTS)
+        // The live view already found the hands in this frame
+        await renderPhoto({ image, hands })
+      } catch (err) {
+        console.error("Error rendering live capture:", err)
+        setError("Failed to load captured frame.")
+        setIsLoading(false)
+      }
+    },
+    [renderPhoto],
+  )
 
-        resultCanvas.width = originalImage.naturalWidth
-        resultCanvas.height = originalImage.naturalHeight
-        const ctx = resultCanvas.getContext("2d")
-        if (!ctx) {
-          setError("Could not get result canvas context.")
-          setIsLoading(false)
-          return
-        }
+  // Thumbnails reuse the worker's photo and hands, so comparing designs never re-detects
+  const renderDesignGrid = useCallback(
+    async (designIds: string[]) => {
+      if (!tryOnWorker) throw new Error("The try-on worker is not ready")
+      return tryOnWorker.renderGrid({
+        designIds,
+        size: DESIGN_GRID_THUMBNAIL_SIZE,
+        nailShape: nailShape ?? undefined,
+        matchLighting,
+        adjustments: nailAdjustments,
+      })
+    },
+    [tryOnWorker, nailShape, matchLighting, nailAdjustments],
+  )
 
-        ctx.clearRect(0, 0, resultCanvas.width, resultCanvas.height)
-        ctx.drawImage(originalImage, 0, 0, resultCanvas.width, resultCanvas.height)
-
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-          const handLandmarks = results.multiHandLandmarks[0] // Use the first detected hand
-
-          // Apply to all fingers
-          const fingerTipIndices = [4, 8, 12, 16, 20] // Thumb, Index, Middle, Ring, Pinky tips
-          const fingerBaseIndices = [3, 6, 10, 14, 18] // Corresponding DIP joints
-          const fingerMidIndices = [2, 5, 9, 13, 17] // Corresponding PIP joints
-
-          // Use different designs for each finger
-          let designsApplied = 0
-
-          for (let i = 0; i < fingerTipIndices.length; i++) {
-            const tipIdx = fingerTipIndices[i]
-            const baseIdx = fingerBaseIndices[i]
-            const midIdx = fingerMidIndices[i]
-
-            const tip = handLandmarks[tipIdx]
-            const base = handLandmarks[baseIdx]
-            const mid = handLandmarks[midIdx]
-
-            if (tip && base && mid) {
-              // Convert normalized landmarks to pixel coordinates
-              const tipPx = { x: tip.x * resultCanvas.width, y: tip.y * resultCanvas.height }
-              const basePx = { x: base.x * resultCanvas.width, y: base.y * resultCanvas.height }
-              const midPx = { x: mid.x * resultCanvas.width, y: mid.y * resultCanvas.height }
-
-              // Calculate nail center (approximate) - closer to tip than base
-              const nailCenterX = tipPx.x * 0.7 + basePx.x * 0.3
-              const nailCenterY = tipPx.y * 0.7 + basePx.y * 0.3
-
-              // Calculate nail length (distance between tip and base)
-              const nailLength = Math.sqrt(Math.pow(tipPx.x - basePx.x, 2) + Math.pow(tipPx.y - basePx.y, 2))
-
-              // Calculate rotation based on the segment from mid to tip for better finger orientation
-              const angleRad = Math.atan2(tipPx.y - midPx.y, tipPx.x - midPx.x)
-
-              // Get the appropriate design for this finger
-              const designIndex = (selectedDesignIndex + i) % nailDesigns.length
-              const designImg = nailDesigns[designIndex].generateDesign()
-
-              // Scale the design
-              const designAspectRatio = designImg.width / designImg.height || 1
-              const scaledDesignHeight = nailLength * 0.8 // Adjust multiplier for better fit
-              const scaledDesignWidth = scaledDesignHeight * designAspectRatio
-
-              ctx.save()
-              ctx.translate(nailCenterX, nailCenterY)
-              ctx.rotate(angleRad)
-
-              // Draw the design
-              ctx.drawImage(
-                designImg,
-                -scaledDesignWidth / 2,
-                -scaledDesignHeight / 2,
-                scaledDesignWidth,
-                scaledDesignHeight,
-              )
-
-              ctx.restore()
-              designsApplied++
-            }
-          }
+  const handlePickGridDesign = useCallback((designId: string) => {
+    setHandManicures(createUniformHandManicures(designId))
+    setResultView("edit")
+  }, [])
 
-          if (designsApplied > 0) {
-            setStatusMessage(`Design applied to ${designsApplied} nails! Check it out.`)
-          } else {
-            setStatusMessage("Could not identify all necessary finger landmarks.")
-          }
-          setProcessedImage(resultCanvas.toDataURL("image/png"))
-        } else {
-          setStatusMessage("No hand detected in the image. Please try a clearer photo.")
-          // Draw the original image without overlay if no hand detected
-          ctx.drawImage(originalImage, 0, 0, resultCanvas.width, resultCanvas.height)
-          setProcessedImage(resultCanvas.toDataURL("image/png")) // Show original image in result canvas
+  const refreshLooks = useCallback(() => {
+    listLooks()
+      .then(setSavedLooks)
+      .catch((err) => {
+        console.error("Error loading saved looks:", err)
+      })
+  }, [])
+
+  useEffect(() => {
+    refreshLooks()
+  }, [refreshLooks])
+
+  // Every try-on goes into the history. Later edits to the same photo update its look.
+  useEffect(() => {
+    if (!processedImage || !userImage || detectedHandsRef.current.length === 0) return
+    const timeout = setTimeout(async () => {
+      try {
+        const existing = currentLookIdRef.current ? await getLook(currentLookIdRef.current) : undefined
+        const [photo, result] = await Promise.all([
+          (await fetch(userImage)).blob(),
+          (await fetch(processedImage)).blob(),
+        ])
+        const usedDesignIds = new Set([...Object.values(handManicures.left), ...Object.values(handManicures.right)])
+        const now = Date.now()
+        const look: SavedLook = {
+          id: existing?.id ?? currentLookIdRef.current ?? createLookId(),
+          name: existing?.name ?? createLookName(),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+          hands: detectedHandsRef.current,
+          manicures: handManicures,
+          nailShape,
+          adjustments: nailAdjustments,
+          matchLighting,
+          customDesigns: loadCustomDesigns().filter((design) => usedDesignIds.has(design.id)),
+          photo,
+          thumbnail: await createLookThumbnail(result),
         }
+        await saveLook(look)
+        currentLookIdRef.current = look.id
+        refreshLooks()
       } catch (err) {
-        console.error("Error in onHandsResults:", err)
-        setError("Error applying nail design. Please try another photo.")
-      } finally {
-        setIsLoading(false)
+        // Saving is a convenience, so a full or blocked database shouldn't interrupt the try-on
+        console.error("Error saving look:", err)
+      }
+    }, LOOK_SAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [processedImage, userImage, handManicures, nailShape, nailAdjustments, matchLighting, refreshLooks])
+
+  // Looks carry the custom designs they use, which may not exist on this device. Designs
+  // outside the custom ID namespace are skipped, so a look can't replace a catalog design.
+  const restoreCustomDesigns = useCallback(
+    async (lookDesigns: NailDesign[]) => {
+      const designs = lookDesigns.filter((design) => {
+        if (isCustomDesignId(design.id)) return true
+        console.error(`Skipped a custom design with the non-custom ID "${design.id}"`)
+        return false
+      })
+      if (designs.length === 0) return
+      await Promise.all(designs.map((design) => registerCustomDesign(design)))
+      try {
+        designs.forEach((design) => saveCustomDesign(design))
+      } catch (err) {
+        console.error("Error saving custom design:", err)
       }
+      tryOnWorker?.registerDesigns(designs)
+      setNailDesigns(listDesigns())
     },
-    [nailDesigns, selectedDesignIndex, sampleNailDesignImg],
+    [tryOnWorker],
   )
 
-  const handleSaveImage = useCallback(() => {
-    if (processedImage) {
+  const handleOpenLook = useCallback(
+    async (look: SavedLook) => {
+      if (!tryOnWorker) {
+        setError("Models not ready. Please wait or try refreshing.")
+        return
+      }
+      setIsShowingLooks(false)
+      setIsCreatingDesign(false)
+      setIsLiveMode(false)
+      setError(null)
+      setIsLoading(true)
+
+      let image: ImageBitmap
       try {
-        const link = document.createElement("a")
-        link.download = "nail-try-on-result.png"
-        link.href = processedImage
-        link.click()
+        await restoreCustomDesigns(look.customDesigns)
+        image = await createImageBitmap(look.photo)
+        setUserImage(await blobToDataUrl(look.photo))
+        setFullSizePhoto(null)
       } catch (err) {
-        console.error("Error saving image:", err)
-        setError("Failed to save image. Please try again.")
+        console.error("Error opening look:", err)
+        setError("Failed to open the saved look. Please try another one.")
+        setIsLoading(false)
+        return
       }
+
+      setIsDesignSelected(true)
+      setProcessedImage(null)
+      setResultView("edit")
+      setStatusMessage(`Opening "${look.name}"...`)
+      setHandManicures(look.manicures)
+      setNailShape(look.nailShape)
+      setNailAdjustments(look.adjustments)
+      setMatchLighting(look.matchLighting)
+      hasPhotoRef.current = true
+      currentLookIdRef.current = look.id
+      // The state above isn't in `renderPhoto` yet, so the look is passed along with the photo
+      await renderPhoto({
+        image,
+        hands: look.hands,
+        manicures: look.manicures,
+        nailShape: look.nailShape ?? undefined,
+        matchLighting: look.matchLighting,
+        adjustments: look.adjustments,
+      })
+    },
+    [tryOnWorker, restoreCustomDesigns, renderPhoto],
+  )
+
+  // Wears the manicure from a share link, ready for the user's own photo
+  useEffect(() => {
+    if (sharedLookIdRef.current === undefined) {
+      sharedLookIdRef.current = new URLSearchParams(window.location.search).get("look")
     }
-  }, [processedImage])
+    const lookId = sharedLookIdRef.current
+    if (!lookId || !tryOnWorker) return
+    sharedLookIdRef.current = null
+
+    fetchSharedLook(lookId)
+      .then(async (look) => {
+        await restoreCustomDesigns(look.customDesigns)
+        setSelectedDesignId(getPrimaryDesignId(look.manicures.right))
+        setHandManicures(look.manicures)
+        setNailShape(look.nailShape)
+        setIsDesignSelected(true)
+        setStatusMessage("Shared look ready! Upload a photo of your hand to try it on.")
+        const url = new URL(window.location.href)
+        url.searchParams.delete("look")
+        window.history.replaceState(window.history.state, "", url)
+      })
+      .catch((err) => {
+        console.error("Error loading shared look:", err)
+        setError("Failed to load the shared look. The link may be broken or no longer shared.")
+      })
+  }, [tryOnWorker, restoreCustomDesigns])
+
+  const handleImportLooks = useCallback(
+    (looks: SavedLook[]) => {
+      restoreCustomDesigns(looks.flatMap((look) => look.customDesigns)).catch((err) => {
+        console.error("Error registering imported designs:", err)
+        setError("Some imported looks use designs that could not be loaded.")
+      })
+    },
+    [restoreCustomDesigns],
+  )
+
+  // Re-renders the manicure for saving, on the full-size photo when asked for and there is
+  // one, with the watermark and card from the export dialog
+  const handleExport = useCallback(
+    async (settings: ExportSettings, logo: File | null) => {
+      if (!tryOnWorker) throw new Error("The try-on worker is not ready")
+      const sides = detectedSides.length > 0 ? detectedSides : (["left", "right"] as const)
+      const designIds = new Set(sides.flatMap((side) => FINGERS.map((finger) => handManicures[side][finger])))
+      const designs = nailDesigns.filter((design) => designIds.has(design.id))
+      const watermarkText = settings.watermarkText.trim()
+      const logoImage = logo ? await createImageBitmap(logo) : undefined
+
+      const blob = await tryOnWorker.exportImage({
+        image: settings.isFullSize && fullSizePhoto ? await createImageBitmap(fullSizePhoto.blob) : undefined,
+        manicures: handManicures,
+        nailShape: nailShape ?? undefined,
+        matchLighting,
+        adjustments: nailAdjustments,
+        watermark:
+          watermarkText || logoImage
+            ? { text: watermarkText, logo: logoImage, position: settings.watermarkPosition }
+            : undefined,
+        card:
+          settings.layout === "card"
+            ? {
+                title: settings.cardTitle.trim() || DEFAULT_EXPORT_SETTINGS.cardTitle,
+                designs: designs.map((design) => ({ name: design.name, colors: getDesignColors(design) })),
+                footer: watermarkText || undefined,
+              }
+            : undefined,
+        mimeType: EXPORT_FORMAT_DETAILS[settings.format].mimeType,
+        quality: settings.quality,
+      })
+
+      // Browsers that can't encode the format asked for fall back to PNG
+      const { extension } = EXPORT_FORMAT_DETAILS[getExportFormat(blob.type)]
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.download = `nail-try-on-${settings.layout === "card" ? "card" : "result"}.${extension}`
+      link.href = url
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+    },
+    [tryOnWorker, detectedSides, handManicures, nailDesigns, fullSizePhoto, nailShape, matchLighting, nailAdjustments],
+  )
 
   const handleTryAgain = useCallback(() => {
     setUserImage(null)
     setProcessedImage(null)
     setError(null)
     setIsDesignSelected(false)
+    setNailPlacements([])
+    setPhotoIssues([])
+    setResultView("edit")
+    setNailAdjustments(NO_NAIL_ADJUSTMENTS)
+    hasPhotoRef.current = false
+    currentLookIdRef.current = null
+    setFullSizePhoto(null)
+    detectedHandsRef.current = []
+    renderRequestRef.current++
+    hasQueuedRerenderRef.current = false
     setStatusMessage("Click 'Try This Design' to start.")
     if (resultCanvasRef.current) {
       const ctx = resultCanvasRef.current.getContext("2d")
@@ -636,88 +840,212 @@ export default function NailTryOn() {
     }
   }, [])
 
+  // Uploads the result and its manicure as a look anyone with the link can view, then
+  // shares the link, or copies it where the Web Share API isn't available
   const handleShare = useCallback(async () => {
-    if (processedImage) {
-      try {
-        const response = await fetch(processedImage)
-        const blob = await response.blob()
-        const file = new File([blob], "nail-try-on.png", { type: "image/png" })
-        if (navigator.share) {
-          await navigator.share({
-            title: "My Virtual Nail Design!",
-            text: "Check out this nail design I tried on!",
-            files: [file],
-          })
-        } else {
-          setError("Web Share API not supported in your browser. Please save and share manually.")
-        }
-      } catch (err) {
-        console.error("Share failed:", err)
-        setError("Could not share image. Please save and share manually.")
+    if (!processedImage || !tryOnWorker) return
+    setIsSharing(true)
+    setError(null)
+    let url: string
+    try {
+      const image = await tryOnWorker.exportImage({
+        manicures: handManicures,
+        nailShape: nailShape ?? undefined,
+        matchLighting,
+        adjustments: nailAdjustments,
+        mimeType: "image/jpeg",
+        quality: SHARE_QUALITY,
+      })
+      const usedDesignIds = new Set([...Object.values(handManicures.left), ...Object.values(handManicures.right)])
+      const shared = await shareLook(image, {
+        manicures: handManicures,
+        nailShape,
+        customDesigns: loadCustomDesigns().filter((design) => usedDesignIds.has(design.id)),
+      })
+      url = new URL(shared.url, window.location.origin).href
+      setShareUrl(url)
+    } catch (err) {
+      console.error("Error creating share link:", err)
+      setError("Could not create a share link. Please save the image and share it manually.")
+      return
+    } finally {
+      setIsSharing(false)
+    }
+
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({
+          title: "My Virtual Nail Design!",
+          text: "Check out this nail design I tried on!",
+          url,
+        })
+      } else {
+        await navigator.clipboard.writeText(url)
+        setStatusMessage("Share link copied to the clipboard.")
       }
+    } catch (err) {
+      // Closing the share sheet rejects too. Either way the link stays on the page to copy.
+      if (!(err instanceof DOMException && err.name === "AbortError")) console.error("Error sharing link:", err)
     }
-  }, [processedImage])
+  }, [processedImage, tryOnWorker, handManicures, nailShape, matchLighting, nailAdjustments])
+
+  const handleCopyShareUrl = useCallback(async () => {
+    if (!shareUrl) return
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setStatusMessage("Share link copied to the clipboard.")
+    } catch (err) {
+      console.error("Error copying share link:", err)
+      setError("Could not copy the link. Please select it and copy it manually.")
+    }
+  }, [shareUrl])
 
   return (
     <div className="w-full max-w-2xl p-6 bg-white shadow-xl rounded-lg">
-      <canvas ref={userImageCanvasRef} style={{ display: "none" }} />
+      <div className="flex justify-end mb-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          aria-pressed={isShowingLooks}
+          onClick={() => setIsShowingLooks((show) => !show)}
+        >
+          <History className="mr-2 h-4 w-4" /> {isShowingLooks ? "Close My Looks" : `My Looks (${savedLooks.length})`}
+        </Button>
+      </div>
+
+      {isShowingLooks && (
+        <div className="mb-6 border-b border-gray-200 pb-6">
+          <LookHistory
+            looks={savedLooks}
+            currentLookId={currentLookIdRef.current}
+            onOpen={handleOpenLook}
+            onLooksChange={refreshLooks}
+            onImport={handleImportLooks}
+            onError={setError}
+          />
+        </div>
+      )}
+
+      {!isDesignSelected && isCreatingDesign && (
+        <DesignCreator
+          defaultImageSrc={POST_IMAGE_URL}
+          onCreate={handleCreateDesign}
+          onCancel={() => setIsCreatingDesign(false)}
+        />
+      )}
 
-      {!isDesignSelected && (
+      {!isDesignSelected && !isCreatingDesign && (
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-pink-600 mb-4">Colorful French Tips</h2>
-          <div className="mb-6 border border-gray-200 rounded-lg overflow-hidden shadow-md">
-            <Image
-              src={POST_IMAGE_URL || "/placeholder.svg?height=400&width=600&query=colorful+nail+design"}
-              alt="Colorful French tip nail design"
-              width={600}
-              height={400}
-              className="w-full h-auto object-cover"
-              priority
-            />
+          <h2 className="text-2xl font-bold text-pink-600 mb-4">Choose a Design</h2>
+          <DesignGallery designs={nailDesigns} selectedId={selectedDesignId} onSelect={handleSelectDesign} />
+          {selectedDesign && (
+            <p className="text-gray-600 my-4">
+              <span className="font-semibold text-gray-800">{selectedDesign.name}</span>
+              {selectedDesign.description && ` – ${selectedDesign.description}`}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row justify-center gap-3">
+            <Button
+              onClick={handleTryThisDesign}
+              disabled={!selectedDesign}
+              size="lg"
+              className="bg-pink-500 hover:bg-pink-600 text-white"
+            >
+              <Sparkles className="mr-2 h-5 w-5" /> Try This Design
+            </Button>
+            <Button
+              onClick={() => setIsCreatingDesign(true)}
+              size="lg"
+              variant="outline"
+              className="border-pink-500 text-pink-500 hover:bg-pink-50"
+            >
+              <Scissors className="mr-2 h-5 w-5" /> Create Your Own
+            </Button>
           </div>
-          <p className="text-gray-600 mb-4">
-            Vibrant French tips with colorful outlines - perfect for adding a pop of color to your look!
-          </p>
-          <Button onClick={handleTryThisDesign} size="lg" className="bg-pink-500 hover:bg-pink-600 text-white">
-            <Sparkles className="mr-2 h-5 w-5" /> Try This Design
-          </Button>
         </div>
       )}
 
       {isDesignSelected && !userImage && (
         <div className="text-center">
           <p className="text-lg text-gray-700 mb-4">{statusMessage}</p>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
-            <div className="border border-gray-200 rounded-lg p-4 flex flex-col items-center">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <div
+              onDragOver={(event) => {
+                event.preventDefault()
+                setIsDraggingPhoto(true)
+              }}
+              onDragLeave={() => setIsDraggingPhoto(false)}
+              onDrop={handlePhotoDrop}
+              className={cn(
+                "border rounded-lg p-4 flex flex-col items-center transition-colors",
+                isDraggingPhoto ? "border-pink-500 border-dashed bg-pink-50" : "border-gray-200",
+              )}
+            >
               <h3 className="font-medium mb-2">Upload Photo</h3>
               <Input
                 type="file"
-                accept="image/*"
+                accept="image/*,.heic,.heif"
                 onChange={handleImageUpload}
                 className="mb-2 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-pink-50 file:text-pink-700 hover:file:bg-pink-100"
               />
-              <p className="text-sm text-gray-500">Select a photo from your device</p>
+              <p className="text-sm text-gray-500">Select, drop or paste a photo from your device</p>
             </div>
             <div className="border border-gray-200 rounded-lg p-4 flex flex-col items-center">
               <h3 className="font-medium mb-2">Take Photo</h3>
-              <Button onClick={handleCameraCapture} className="bg-pink-500 hover:bg-pink-600 text-white mb-2">
+              <Button onClick={() => setIsCameraOpen(true)} className="bg-pink-500 hover:bg-pink-600 text-white mb-2">
                 <Camera className="mr-2 h-4 w-4" /> Use Camera
               </Button>
               <p className="text-sm text-gray-500">Take a photo with your device camera</p>
             </div>
+            <div className="border border-gray-200 rounded-lg p-4 flex flex-col items-center">
+              <h3 className="font-medium mb-2">Live Try-On</h3>
+              <Button
+                onClick={handleStartLiveMode}
+                disabled={!tryOnWorker}
+                className="bg-pink-500 hover:bg-pink-600 text-white mb-2"
+              >
+                <Video className="mr-2 h-4 w-4" /> Start Live Mode
+              </Button>
+              <p className="text-sm text-gray-500">See the design on your nails in real time</p>
+            </div>
           </div>
           <div className="text-sm text-gray-500 mb-4">
             For best results, ensure your hand is well-lit and clearly visible
           </div>
-          {isLoading && !handsModel && (
+          {isLoading && !tryOnWorker && (
             <div className="text-center my-4">
               <Loader2 className="h-6 w-6 animate-spin mx-auto text-pink-500" />
-              <p className="mt-2 text-sm text-gray-600">Loading MediaPipe Hands model...</p>
+              <p className="mt-2 text-sm text-gray-600">
+                {loadProgress?.stage === "initializing"
+                  ? "Starting hand detection..."
+                  : loadProgress && loadProgress.totalBytes > 0
+                    ? `Downloading hand model... ${Math.round((loadProgress.loadedBytes / loadProgress.totalBytes) * 100)}%`
+                    : "Loading MediaPipe Hands model..."}
+                {loadProgress && loadProgress.attempt > 1 && ` (retry ${loadProgress.attempt - 1})`}
+              </p>
             </div>
           )}
         </div>
       )}
 
+      <CameraCapture open={isCameraOpen} onOpenChange={setIsCameraOpen} onCapture={handleCameraCapture} />
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        workingSize={resultSize}
+        fullSize={fullSizePhoto}
+        onExport={handleExport}
+      />
+
+      {isLiveMode && tryOnWorker && (
+        <LiveTryOn
+          handDetector={tryOnWorker.detector}
+          drawOverlays={drawLiveOverlays}
+          onCapture={handleLiveCapture}
+          onClose={() => setIsLiveMode(false)}
+        />
+      )}
+
       {error && (
         <Alert variant="destructive" className="mb-4">
           <AlertTriangle className="h-4 w-4" />
@@ -726,6 +1054,20 @@ export default function NailTryOn() {
         </Alert>
       )}
 
+      {userImage && !isLoading && photoIssues.length > 0 && (
+        <Alert className="mb-4 border-amber-300 bg-amber-50">
+          <Lightbulb className="h-4 w-4" />
+          <AlertTitle>Tips for a better try-on</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {photoIssues.map((issue) => (
+                <li key={issue.code}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {isLoading && userImage && (
         <div className="text-center my-6">
           <Loader2 className="h-12 w-12 animate-spin mx-auto text-pink-500" />
@@ -736,15 +1078,40 @@ export default function NailTryOn() {
       {processedImage && !isLoading && (
         <div className="mt-6 text-center">
           <h3 className="text-2xl font-semibold text-pink-600 mb-4">Your Virtual Try-On!</h3>
-          <div className="border-2 border-pink-300 rounded-lg overflow-hidden shadow-md inline-block">
-            <Image
-              src={processedImage || "/placeholder.svg?height=400&width=600&query=hand+with+nail+design"}
-              alt="Processed nail design"
-              width={600}
-              height={400}
-              className="max-w-full h-auto"
+          {resultView === "before-after" && userImage ? (
+            <BeforeAfterComparison
+              beforeSrc={userImage}
+              afterSrc={processedImage}
+              imageWidth={resultSize.width}
+              imageHeight={resultSize.height}
+              onError={setError}
             />
-          </div>
+          ) : resultView === "designs" ? (
+            <DesignGrid
+              designs={nailDesigns}
+              renderThumbnails={renderDesignGrid}
+              onPick={handlePickGridDesign}
+              onError={setError}
+            />
+          ) : (
+            <>
+              <ManicureEditor
+                imageSrc={processedImage}
+                imageWidth={resultSize.width}
+                imageHeight={resultSize.height}
+                placements={nailPlacements}
+                handManicures={handManicures}
+                detectedSides={detectedSides}
+                designs={nailDesigns}
+                onChange={setHandManicures}
+                adjustments={nailAdjustments}
+                onAdjustmentsChange={setNailAdjustments}
+              />
+              <div className="mt-4">
+                <NailShapePicker value={nailShape} onChange={setNailShape} />
+              </div>
+            </>
+          )}
         </div>
       )}
 
@@ -759,20 +1126,49 @@ export default function NailTryOn() {
       {processedImage && !isLoading && (
         <div className="mt-8 flex flex-col sm:flex-row justify-center gap-3">
           <Button
-            onClick={handleSaveImage}
+            onClick={() => setIsExportOpen(true)}
             variant="outline"
             className="border-pink-500 text-pink-500 hover:bg-pink-50"
           >
             <Download className="mr-2 h-4 w-4" /> Save Image
           </Button>
+          <Button
+            onClick={() => setResultView((view) => (view === "before-after" ? "edit" : "before-after"))}
+            variant="ghost"
+            aria-pressed={resultView === "before-after"}
+          >
+            <Columns2 className="mr-2 h-4 w-4" />{" "}
+            {resultView === "before-after" ? "Back to Editing" : "Compare Before/After"}
+          </Button>
+          <Button
+            onClick={() => setResultView((view) => (view === "designs" ? "edit" : "designs"))}
+            variant="ghost"
+            aria-pressed={resultView === "designs"}
+          >
+            <LayoutGrid className="mr-2 h-4 w-4" /> {resultView === "designs" ? "Back to Editing" : "Compare Designs"}
+          </Button>
+          <Button onClick={() => setMatchLighting((match) => !match)} variant="ghost" aria-pressed={!matchLighting}>
+            <SunMedium className="mr-2 h-4 w-4" /> {matchLighting ? "Show Raw Colors" : "Match Photo Lighting"}
+          </Button>
+          <Button onClick={() => setShowNailMasks((show) => !show)} variant="ghost" aria-pressed={showNailMasks}>
+            <Bug className="mr-2 h-4 w-4" /> {showNailMasks ? "Hide Nail Masks" : "Show Nail Masks"}
+          </Button>
           <Button onClick={handleTryAgain} variant="outline">
             <RefreshCw className="mr-2 h-4 w-4" /> Try Another Photo
           </Button>
-          {navigator.share && (
-            <Button onClick={handleShare} className="bg-green-500 hover:bg-green-600 text-white">
-              <Share2 className="mr-2 h-4 w-4" /> Share Result
-            </Button>
-          )}
+          <Button onClick={handleShare} disabled={isSharing} className="bg-green-500 hover:bg-green-600 text-white">
+            {isSharing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Share2 className="mr-2 h-4 w-4" />}{" "}
+            Share Link
+          </Button>
+        </div>
+      )}
+
+      {shareUrl && processedImage && !isLoading && (
+        <div className="mt-4 flex gap-2">
+          <Input readOnly value={shareUrl} aria-label="Share link" onFocus={(event) => event.currentTarget.select()} />
+          <Button onClick={handleCopyShareUrl} variant="outline">
+            <Copy className="mr-2 h-4 w-4" /> Copy Link
+          </Button>
         </div>
       )}
     </div>
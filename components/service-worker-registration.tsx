@@ -0,0 +1,14 @@
+"use client"
+
+import { useEffect } from "react"
+import { registerServiceWorker } from "@/lib/service-worker"
+
+// Registers the service worker on every page. The try-on registers it too, earlier, so the
+// hand model downloads through its cache.
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
+  return null
+}
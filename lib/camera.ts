@@ -0,0 +1,73 @@
+// Camera setup for taking hand photos. The preview and the captured photo are mirrored
+// together, so the photo always looks like what the user saw.
+
+export type CameraFacing = "user" | "environment"
+
+export const CAMERA_RESOLUTIONS = [
+  { id: "hd", label: "HD (720p)", width: 1280, height: 720 },
+  { id: "full-hd", label: "Full HD (1080p)", width: 1920, height: 1080 },
+  { id: "4k", label: "4K (2160p)", width: 3840, height: 2160 },
+] as const
+
+export type CameraResolution = (typeof CAMERA_RESOLUTIONS)[number]["id"]
+
+export const CAMERA_COUNTDOWNS = [0, 3, 10] as const // Seconds before the photo is taken
+
+export type CameraSettings = {
+  deviceId: string | null // A specific camera; null picks one by `facing`
+  facing: CameraFacing
+  resolution: CameraResolution
+}
+
+export function isCameraSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+}
+
+export function getCameraConstraints({ deviceId, facing, resolution }: CameraSettings): MediaStreamConstraints {
+  const size = CAMERA_RESOLUTIONS.find((option) => option.id === resolution) ?? CAMERA_RESOLUTIONS[0]
+  return {
+    audio: false,
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: facing } }),
+      // Ideal rather than exact, so cameras that can't reach the size still start
+      width: { ideal: size.width },
+      height: { ideal: size.height },
+    },
+  }
+}
+
+/**
+ * Lists the cameras on the device. Browsers only fill in their labels once the page
+ * has been allowed to use a camera.
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices.filter((device) => device.kind === "videoinput")
+}
+
+/**
+ * Whether a camera's picture should be mirrored. Front cameras are, like a mirror, while
+ * back cameras show the scene as it is. Webcams that don't report a facing are assumed
+ * to face the user when one was asked for.
+ */
+export function isMirroredCamera(track: MediaStreamTrack, requestedFacing: CameraFacing): boolean {
+  const { facingMode } = track.getSettings()
+  return (facingMode ?? requestedFacing) === "user"
+}
+
+/**
+ * Copies the current video frame at full resolution, flipped when the preview is mirrored.
+ */
+export function captureVideoFrame(video: HTMLVideoElement, isMirrored: boolean): HTMLCanvasElement {
+  const canvas = document.createElement("canvas")
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get a 2D context to capture the camera frame")
+  if (isMirrored) {
+    ctx.translate(canvas.width, 0)
+    ctx.scale(-1, 1)
+  }
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
@@ -0,0 +1,147 @@
+import type { NormalizedLandmark } from "@mediapipe/hands"
+import type { Point2D } from "@/lib/nail-geometry"
+import { createCanvas, getContext2D, getImageSize, type TryOnCanvas, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// Per-channel multipliers that take a polish color from neutral studio light to the photo's
+export type ColorGains = { r: number; g: number; b: number }
+
+export type SceneLighting = {
+  whitePoint: ColorGains // Color and exposure of the light, 1 for a well-exposed neutral white
+}
+
+const NEUTRAL_GAINS: ColorGains = { r: 1, g: 1, b: 1 }
+
+const SAMPLE_STEP = 4
+// Minkowski norm for the shades-of-gray illuminant estimate; higher trusts bright pixels more
+const ILLUMINANT_NORM = 6
+// How much of the estimated color cast to apply. Full correction overshoots on scenes
+// that really are one color, like a hand against a red wall.
+const ILLUMINANT_STRENGTH = 0.7
+// Brightness of the scene's highlights, as a percentile of luminance, taken as its white
+const WHITE_PERCENTILE = 0.95
+const MIN_EXPOSURE = 0.45
+// Fingertips in shadow darken the polish, but never to black; lit ones brighten it slightly
+const MIN_SHADING = 0.55
+const MAX_SHADING = 1.2
+const MIN_GAIN = 0.25
+const MAX_GAIN = 1.2
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Estimates the color and brightness of the light in a photo: the color cast with a
+ * shades-of-gray estimate, and the exposure from how bright its highlights are.
+ */
+export function estimateSceneLighting(source: ImageData): SceneLighting {
+  const { width, height, data } = source
+  const sums = [0, 0, 0]
+  const histogram = new Uint32Array(256)
+  let count = 0
+
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      const i = (y * width + x) * 4
+      const [r, g, b] = [data[i], data[i + 1], data[i + 2]]
+      sums[0] += Math.pow(r / 255, ILLUMINANT_NORM)
+      sums[1] += Math.pow(g / 255, ILLUMINANT_NORM)
+      sums[2] += Math.pow(b / 255, ILLUMINANT_NORM)
+      histogram[Math.round(luminance(r, g, b))]++
+      count++
+    }
+  }
+  if (count === 0) return { whitePoint: NEUTRAL_GAINS }
+
+  const illuminant = sums.map((sum) => Math.pow(sum / count, 1 / ILLUMINANT_NORM))
+  const illuminantMean = (illuminant[0] + illuminant[1] + illuminant[2]) / 3
+  const cast = illuminant.map((value) =>
+    illuminantMean > 0 ? 1 + (value / illuminantMean - 1) * ILLUMINANT_STRENGTH : 1,
+  )
+
+  let white = 255
+  for (let seen = 0; white > 0; white--) {
+    seen += histogram[white]
+    if (seen >= count * (1 - WHITE_PERCENTILE)) break
+  }
+  const exposure = clamp(white / 255, MIN_EXPOSURE, 1)
+
+  return { whitePoint: { r: exposure * cast[0], g: exposure * cast[1], b: exposure * cast[2] } }
+}
+
+// Mean luminance of the source pixels within `radius` of a point, or null if none are in the image
+function sampleDiscLuminance(source: ImageData, center: Point2D, radius: number): number | null {
+  let sum = 0
+  let count = 0
+  const r = Math.ceil(radius)
+  const step = Math.max(1, Math.floor(radius / 6))
+  for (let y = Math.round(center.y) - r; y <= Math.round(center.y) + r; y += step) {
+    for (let x = Math.round(center.x) - r; x <= Math.round(center.x) + r; x += step) {
+      if (x < 0 || y < 0 || x >= source.width || y >= source.height) continue
+      if (Math.hypot(x - center.x, y - center.y) > radius) continue
+      const i = (y * source.width + x) * 4
+      sum += luminance(source.data[i], source.data[i + 1], source.data[i + 2])
+      count++
+    }
+  }
+  return count > 0 ? sum / count : null
+}
+
+/**
+ * Returns a function giving the color gains for a nail at `center`, from the scene's light
+ * and how much brighter or darker that fingertip is than the rest of the hand. Comparing
+ * skin with the same hand's skin keeps the result independent of skin tone.
+ */
+export function createNailColorMatcher(
+  source: ImageData,
+  lighting: SceneLighting,
+  landmarks: NormalizedLandmark[],
+  sampleRadius: number,
+): (center: Point2D) => ColorGains {
+  const handSamples = landmarks
+    .map((landmark) =>
+      sampleDiscLuminance(source, { x: landmark.x * source.width, y: landmark.y * source.height }, sampleRadius),
+    )
+    .filter((sample): sample is number => sample !== null)
+  const handLuminance = handSamples.reduce((sum, sample) => sum + sample, 0) / Math.max(handSamples.length, 1)
+
+  return (center) => {
+    const local = sampleDiscLuminance(source, center, sampleRadius)
+    const shading = local !== null && handLuminance > 0 ? clamp(local / handLuminance, MIN_SHADING, MAX_SHADING) : 1
+    const { r, g, b } = lighting.whitePoint
+    return {
+      r: clamp(r * shading, MIN_GAIN, MAX_GAIN),
+      g: clamp(g * shading, MIN_GAIN, MAX_GAIN),
+      b: clamp(b * shading, MIN_GAIN, MAX_GAIN),
+    }
+  }
+}
+
+/**
+ * Multiplies the colors of a texture by `gains`, keeping its alpha.
+ */
+export function applyColorGains(texture: TryOnImageSource, gains: ColorGains, canvas?: TryOnCanvas): TryOnCanvas {
+  const { width, height } = getImageSize(texture)
+  const target = canvas ?? createCanvas(width, height)
+  target.width = width
+  target.height = height
+
+  const ctx = getContext2D(target)
+  ctx.clearRect(0, 0, width, height)
+  ctx.drawImage(texture, 0, 0, width, height)
+
+  const imageData = ctx.getImageData(0, 0, width, height)
+  const { data } = imageData
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    data[i] = data[i] * gains.r
+    data[i + 1] = data[i + 1] * gains.g
+    data[i + 2] = data[i + 2] * gains.b
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return target
+}
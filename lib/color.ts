@@ -0,0 +1,54 @@
+export type RGBA = { r: number; g: number; b: number; a: number }
+
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+const RGB_COLOR = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*(\d*\.?\d+)\s*)?\)$/i
+
+/**
+ * Parses a hex (`#rgb`, `#rrggbb`, with optional alpha) or `rgb()`/`rgba()` color.
+ * Returns null for anything else, including out-of-range channels.
+ */
+export function parseColor(value: string): RGBA | null {
+  const color = value.trim()
+
+  const hex = HEX_COLOR.exec(color)
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length <= 4) {
+      digits = digits
+        .split("")
+        .map((digit) => digit + digit)
+        .join("")
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    }
+  }
+
+  const rgb = RGB_COLOR.exec(color)
+  if (rgb) {
+    const [r, g, b] = [rgb[1], rgb[2], rgb[3]].map(Number)
+    const a = rgb[4] === undefined ? 1 : Number(rgb[4])
+    if (r > 255 || g > 255 || b > 255 || a > 1) return null
+    return { r, g, b, a }
+  }
+
+  return null
+}
+
+export function isValidColor(value: string): boolean {
+  return parseColor(value) !== null
+}
+
+export function toRgbaString({ r, g, b, a }: RGBA): string {
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Number(a.toFixed(3))})`
+}
+
+export function toHexString({ r, g, b }: RGBA): string {
+  return `#${[r, g, b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase()}`
+}
@@ -0,0 +1,92 @@
+import {
+  createCanvas,
+  getContext2D,
+  getImageSize,
+  type TryOnCanvas,
+  type TryOnContext,
+  type TryOnImageSource,
+} from "@/lib/try-on/canvas"
+
+export const COMPARISON_MODES = ["slider", "side-by-side", "toggle"] as const
+
+export type ComparisonMode = (typeof COMPARISON_MODES)[number]
+
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  slider: "Slider",
+  "side-by-side": "Side by Side",
+  toggle: "Tap to Toggle",
+}
+
+export type ComparisonOptions = {
+  // "split" shows the photo before up to `split` and after past it, like the slider.
+  // A toggle can't be shown in one image, so it is exported side by side.
+  layout: "side-by-side" | "split"
+  split?: number // Fraction of the width showing the photo before, for "split"
+  canvas?: TryOnCanvas
+}
+
+const DIVIDER_COLOR = "#FFFFFF"
+
+// Labels scale with the photo so they read the same at any resolution
+function drawLabel(ctx: TryOnContext, text: string, x: number, y: number, align: "left" | "right", size: number) {
+  ctx.save()
+  ctx.font = `600 ${size}px sans-serif`
+  const padding = size * 0.5
+  const width = ctx.measureText(text).width + padding * 2
+  const height = size + padding
+  const left = align === "left" ? x : x - width
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)"
+  ctx.beginPath()
+  ctx.roundRect(left, y, width, height, height / 2)
+  ctx.fill()
+  ctx.fillStyle = "#FFFFFF"
+  ctx.textBaseline = "middle"
+  ctx.fillText(text, left + padding, y + height / 2)
+  ctx.restore()
+}
+
+/**
+ * Combines a photo and its try-on result into one labelled image. The result is
+ * scaled to the photo's size in case they differ.
+ */
+export function renderComparison(
+  before: TryOnImageSource,
+  after: TryOnImageSource,
+  { layout, split = 0.5, canvas }: ComparisonOptions,
+): TryOnCanvas {
+  const { width, height } = getImageSize(before)
+  const gap = layout === "side-by-side" ? Math.round(width * 0.02) : 0
+  const target = canvas ?? createCanvas(width, height)
+  target.width = layout === "side-by-side" ? width * 2 + gap : width
+  target.height = height
+
+  const ctx = getContext2D(target)
+  const labelSize = Math.max(14, Math.round(Math.min(width, height) * 0.045))
+  const margin = labelSize * 0.75
+  ctx.fillStyle = DIVIDER_COLOR
+  ctx.fillRect(0, 0, target.width, target.height)
+
+  if (layout === "side-by-side") {
+    ctx.drawImage(before, 0, 0, width, height)
+    ctx.drawImage(after, width + gap, 0, width, height)
+    drawLabel(ctx, "Before", margin, margin, "left", labelSize)
+    drawLabel(ctx, "After", width + gap + margin, margin, "left", labelSize)
+    return target
+  }
+
+  const splitX = Math.round(width * Math.min(Math.max(split, 0), 1))
+  ctx.drawImage(after, 0, 0, width, height)
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(0, 0, splitX, height)
+  ctx.clip()
+  ctx.drawImage(before, 0, 0, width, height)
+  ctx.restore()
+
+  const lineWidth = Math.max(2, Math.round(width * 0.004))
+  ctx.fillStyle = DIVIDER_COLOR
+  ctx.fillRect(splitX - lineWidth / 2, 0, lineWidth, height)
+  if (splitX > 0) drawLabel(ctx, "Before", margin, margin, "left", labelSize)
+  if (splitX < width) drawLabel(ctx, "After", width - margin, margin, "right", labelSize)
+  return target
+}
@@ -0,0 +1,54 @@
+import {
+  CUSTOM_DESIGN_ID_PREFIX,
+  customDesignSchema,
+  nailDesignSchema,
+  type Finish,
+  type NailDesign,
+  type NailDesignInput,
+} from "@/lib/designs/schema"
+
+// Designs users create from their own photos live in the browser only
+const STORAGE_KEY = "nail-try-on:custom-designs"
+
+/**
+ * Builds the spec for a design made from a photo texture.
+ */
+export function createCustomDesign(name: string, texture: string, finish: Finish = "gloss"): NailDesign {
+  const input: NailDesignInput = {
+    id: `${CUSTOM_DESIGN_ID_PREFIX}${Date.now().toString(36)}`,
+    name: name.trim() || "My Design",
+    description: "Created from your photo",
+    category: "art",
+    tags: ["custom"],
+    baseColor: "rgba(0, 0, 0, 0)",
+    texture,
+    finish,
+  }
+  return nailDesignSchema.parse(input)
+}
+
+/**
+ * Returns the saved custom designs, skipping any that no longer validate.
+ */
+export function loadCustomDesigns(): NailDesign[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap((entry) => {
+      const parsed = customDesignSchema.safeParse(entry)
+      return parsed.success ? [parsed.data] : []
+    })
+  } catch (err) {
+    console.error("Error reading custom designs:", err)
+    return []
+  }
+}
+
+/**
+ * Saves a custom design, replacing any saved design with the same ID.
+ * Throws if storage is full or unavailable.
+ */
+export function saveCustomDesign(design: NailDesign) {
+  const designs = loadCustomDesigns().filter((saved) => saved.id !== design.id)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...designs, design]))
+}
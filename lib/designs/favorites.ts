@@ -0,0 +1,19 @@
+// Favorite design IDs, kept in the browser like custom designs
+const STORAGE_KEY = "nail-try-on:favorite-designs"
+
+export function loadFavoriteDesignIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === "string") : []
+  } catch (err) {
+    console.error("Error reading favorite designs:", err)
+    return []
+  }
+}
+
+/**
+ * Saves the favorite design IDs. Throws if storage is full or unavailable.
+ */
+export function saveFavoriteDesignIds(ids: string[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ids))
+}
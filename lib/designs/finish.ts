@@ -0,0 +1,294 @@
+import { parseColor, toRgbaString, type RGBA } from "@/lib/color"
+import type { NailDesign, NailShapeOptions } from "@/lib/designs/schema"
+import { DESIGN_TEXTURE_HEIGHT, NATURAL_NAIL, traceNailOutline } from "@/lib/designs/shape"
+import type { LightDirection } from "@/lib/light-direction"
+import type { NailQuad, Point2D } from "@/lib/nail-geometry"
+import {
+  createCanvas,
+  getContext2D,
+  getImageSize,
+  type TryOnCanvas,
+  type TryOnContext,
+  type TryOnImageSource,
+} from "@/lib/try-on/canvas"
+
+// What the finish needs to know about a design
+export type FinishStyle = Pick<NailDesign, "id" | "finish" | "finishColor">
+
+type TextureSize = { width: number; height: number }
+
+// Light direction in texture space, where +x points across the nail and -y towards the free edge
+export type NailLight = Point2D
+
+export type ApplyFinishOptions = {
+  canvas?: TryOnCanvas // Draw into this canvas instead of a new one
+  nailShape?: NailShapeOptions // The shape the texture was rendered for
+  seed?: string // Varies the glitter layout, e.g. per finger. Defaults to the design ID.
+}
+
+export const FINISH_LABELS: Record<NailDesign["finish"], string> = {
+  gloss: "Gloss",
+  matte: "Matte",
+  chrome: "Chrome",
+  glitter: "Glitter",
+  "cat-eye": "Cat-eye",
+}
+
+const DEFAULT_FINISH_COLOR: Record<NailDesign["finish"], string> = {
+  gloss: "#FFFFFF",
+  matte: "#FFFFFF",
+  chrome: "#FFFFFF",
+  glitter: "#E6E6F0",
+  "cat-eye": "#D9CCFF",
+}
+
+const GLITTER_PARTICLES = 220
+
+/**
+ * Expresses an image-space light direction in the texture space of one nail, so that
+ * highlights land on the side of the nail facing the light whatever its orientation.
+ */
+export function getNailLight(quad: NailQuad, light: LightDirection): NailLight {
+  const across = { x: quad.tipRight.x - quad.tipLeft.x, y: quad.tipRight.y - quad.tipLeft.y }
+  const along = {
+    x: (quad.cuticleLeft.x + quad.cuticleRight.x - quad.tipLeft.x - quad.tipRight.x) / 2,
+    y: (quad.cuticleLeft.y + quad.cuticleRight.y - quad.tipLeft.y - quad.tipRight.y) / 2,
+  }
+  const acrossLength = Math.hypot(across.x, across.y) || 1
+  const alongLength = Math.hypot(along.x, along.y) || 1
+  return {
+    x: (light.x * across.x + light.y * across.y) / acrossLength,
+    y: (light.x * along.x + light.y * along.y) / alongLength,
+  }
+}
+
+// Small deterministic PRNG, so glitter doesn't flicker between video frames
+function createRandom(seed: string): () => number {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function withAlpha(color: RGBA, alpha: number): string {
+  return toRgbaString({ ...color, a: color.a * alpha })
+}
+
+function mixWithWhite(color: RGBA, amount: number): RGBA {
+  return {
+    r: color.r + (255 - color.r) * amount,
+    g: color.g + (255 - color.g) * amount,
+    b: color.b + (255 - color.b) * amount,
+    a: color.a,
+  }
+}
+
+// Where the reflection of the light sits on the curved nail
+function getHighlightCenter({ width, height }: TextureSize, light: NailLight): Point2D {
+  return {
+    x: width * (0.5 + light.x * 0.26),
+    y: height * (0.48 + light.y * 0.2),
+  }
+}
+
+// The nail's cross-section is curved, so the sidewall facing away from the light is darker
+function drawSideShading(ctx: TryOnContext, { width, height }: TextureSize, light: NailLight, strength: number) {
+  const gradient = ctx.createLinearGradient(0, 0, width, 0)
+  gradient.addColorStop(0, `rgba(0, 0, 0, ${strength * Math.max(0, 1 + light.x)})`)
+  gradient.addColorStop(0.3, "rgba(0, 0, 0, 0)")
+  gradient.addColorStop(0.7, "rgba(0, 0, 0, 0)")
+  gradient.addColorStop(1, `rgba(0, 0, 0, ${strength * Math.max(0, 1 - light.x)})`)
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, width, height)
+}
+
+// Soft elongated reflection along the nail, with a brighter core
+function drawSpecular(ctx: TryOnContext, size: TextureSize, light: NailLight, intensity: number) {
+  const { x, y } = getHighlightCenter(size, light)
+  const radiusX = size.width * 0.1
+  const radiusY = size.height * 0.3
+
+  ctx.save()
+  ctx.translate(x, y)
+  ctx.scale(1, radiusY / radiusX)
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusX)
+  gradient.addColorStop(0, `rgba(255, 255, 255, ${intensity})`)
+  gradient.addColorStop(0.35, `rgba(255, 255, 255, ${intensity * 0.6})`)
+  gradient.addColorStop(1, "rgba(255, 255, 255, 0)")
+  ctx.fillStyle = gradient
+  ctx.beginPath()
+  ctx.arc(0, 0, radiusX, 0, 2 * Math.PI)
+  ctx.fill()
+  ctx.restore()
+}
+
+function drawGloss(ctx: TryOnContext, size: TextureSize, light: NailLight) {
+  drawSideShading(ctx, size, light, 0.2)
+  drawSpecular(ctx, size, light, 0.75)
+}
+
+// No sharp reflection, just a broad sheen and a slightly flattened color
+function drawMatte(ctx: TryOnContext, size: TextureSize, light: NailLight) {
+  drawSideShading(ctx, size, light, 0.12)
+  const { x, y } = getHighlightCenter(size, light)
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, size.width * 0.7)
+  gradient.addColorStop(0, "rgba(255, 255, 255, 0.14)")
+  gradient.addColorStop(1, "rgba(255, 255, 255, 0.02)")
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, size.width, size.height)
+}
+
+// Mirror-like metal: hard bright and dark bands across the nail, tinted by the polish color
+function drawChrome(ctx: TryOnContext, size: TextureSize, light: NailLight, color: RGBA) {
+  const { width, height } = size
+  const shift = light.x * 0.18
+  const bands = ctx.createLinearGradient(0, 0, width, 0)
+  bands.addColorStop(0, "rgba(0, 0, 0, 0.55)")
+  bands.addColorStop(Math.min(Math.max(0.28 + shift, 0.05), 0.95), withAlpha(color, 0.9))
+  bands.addColorStop(Math.min(Math.max(0.42 + shift, 0.1), 0.95), "rgba(40, 40, 40, 0.45)")
+  bands.addColorStop(Math.min(Math.max(0.66 + shift, 0.15), 0.97), withAlpha(mixWithWhite(color, 0.5), 0.6))
+  bands.addColorStop(1, "rgba(0, 0, 0, 0.6)")
+
+  ctx.save()
+  ctx.globalCompositeOperation = "overlay"
+  ctx.fillStyle = bands
+  ctx.fillRect(0, 0, width, height)
+
+  // Reflected horizon: the bright sky above, darker surroundings below
+  const environment = ctx.createLinearGradient(0, 0, 0, height)
+  environment.addColorStop(0, "rgba(255, 255, 255, 0.35)")
+  environment.addColorStop(0.45 + light.y * 0.15, "rgba(255, 255, 255, 0.05)")
+  environment.addColorStop(1, "rgba(0, 0, 0, 0.3)")
+  ctx.globalCompositeOperation = "soft-light"
+  ctx.fillStyle = environment
+  ctx.fillRect(0, 0, width, height)
+  ctx.restore()
+
+  drawSpecular(ctx, size, light, 0.95)
+}
+
+// Flakes tilted towards the light sparkle; the rest only catch a little of it
+function drawGlitter(ctx: TryOnContext, size: TextureSize, light: NailLight, color: RGBA, seed: string) {
+  const random = createRandom(seed)
+  const lightAngle = Math.atan2(light.y, light.x)
+  // Longer nails get more glitter, not sparser glitter
+  const count = Math.round((GLITTER_PARTICLES * size.height) / DESIGN_TEXTURE_HEIGHT)
+
+  for (let i = 0; i < count; i++) {
+    const x = random() * size.width
+    const y = random() * size.height
+    const radius = 1.5 + random() * 2.5
+    const facing = Math.max(0, Math.cos(random() * 2 * Math.PI - lightAngle))
+    const sparkle = Math.pow(facing, 6)
+
+    ctx.fillStyle = withAlpha(mixWithWhite(color, sparkle * 0.8), 0.35 + 0.65 * Math.max(facing * 0.5, sparkle))
+    ctx.beginPath()
+    for (let corner = 0; corner < 6; corner++) {
+      const angle = (corner * Math.PI) / 3
+      ctx.lineTo(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius)
+    }
+    ctx.closePath()
+    ctx.fill()
+
+    if (sparkle > 0.8) {
+      ctx.strokeStyle = `rgba(255, 255, 255, ${sparkle * 0.9})`
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.moveTo(x - radius * 2.5, y)
+      ctx.lineTo(x + radius * 2.5, y)
+      ctx.moveTo(x, y - radius * 2.5)
+      ctx.lineTo(x, y + radius * 2.5)
+      ctx.stroke()
+    }
+  }
+
+  drawGloss(ctx, size, light)
+}
+
+// Magnetic polish: a glowing band of aligned particles that moves with the light
+function drawCatEye(ctx: TryOnContext, size: TextureSize, light: NailLight, color: RGBA, seed: string) {
+  const { width, height } = size
+  drawSideShading(ctx, size, light, 0.25)
+
+  const center = width * (0.5 + light.x * 0.3)
+  const halfWidth = width * 0.18
+  const band = ctx.createLinearGradient(center - halfWidth, 0, center + halfWidth, 0)
+  band.addColorStop(0, withAlpha(color, 0))
+  band.addColorStop(0.5, withAlpha(color, 0.85))
+  band.addColorStop(1, withAlpha(color, 0))
+
+  ctx.save()
+  ctx.globalCompositeOperation = "screen"
+  ctx.fillStyle = band
+  ctx.fillRect(0, 0, width, height)
+
+  // Fine streaks along the band, like particles lined up by the magnet
+  const random = createRandom(seed)
+  ctx.strokeStyle = withAlpha(mixWithWhite(color, 0.6), 0.35)
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  for (let i = 0; i < 40; i++) {
+    const x = center + (random() + random() - 1) * halfWidth
+    const y = random() * height
+    const length = 6 + random() * 18
+    ctx.moveTo(x, y)
+    ctx.lineTo(x, y + length)
+  }
+  ctx.stroke()
+  ctx.restore()
+
+  drawSpecular(ctx, size, light, 0.6)
+}
+
+/**
+ * Shades a design texture with its finish, lit from `light` (see `getNailLight`).
+ * The finish is only drawn inside the nail outline, over whatever the texture holds.
+ */
+export function applyFinish(
+  texture: TryOnImageSource,
+  style: FinishStyle,
+  light: NailLight,
+  { canvas, nailShape = NATURAL_NAIL, seed = style.id }: ApplyFinishOptions = {},
+): TryOnCanvas {
+  const size = getImageSize(texture)
+  const target = canvas ?? createCanvas(size.width, size.height)
+  target.width = size.width
+  target.height = size.height
+
+  const ctx = getContext2D(target)
+  ctx.clearRect(0, 0, target.width, target.height)
+  ctx.drawImage(texture, 0, 0, size.width, size.height)
+
+  // Colors are validated by the design schema
+  const color = parseColor(style.finishColor ?? DEFAULT_FINISH_COLOR[style.finish]) as RGBA
+
+  ctx.save()
+  traceNailOutline(ctx, nailShape)
+  ctx.clip()
+  switch (style.finish) {
+    case "gloss":
+      drawGloss(ctx, size, light)
+      break
+    case "matte":
+      drawMatte(ctx, size, light)
+      break
+    case "chrome":
+      drawChrome(ctx, size, light, color)
+      break
+    case "glitter":
+      drawGlitter(ctx, size, light, color, seed)
+      break
+    case "cat-eye":
+      drawCatEye(ctx, size, light, color, seed)
+      break
+  }
+  ctx.restore()
+
+  return target
+}
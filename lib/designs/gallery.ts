@@ -0,0 +1,112 @@
+import { parseColor, type RGBA } from "@/lib/color"
+import type { DesignCategory, NailDesign } from "@/lib/designs/schema"
+
+export const DESIGN_CATEGORY_LABELS: Record<DesignCategory, string> = {
+  french: "French",
+  solid: "Solid",
+  ombre: "Ombré",
+  art: "Nail Art",
+}
+
+export const COLOR_FAMILIES = ["red", "pink", "orange", "yellow", "green", "blue", "purple", "nude", "neutral"] as const
+
+export type ColorFamily = (typeof COLOR_FAMILIES)[number]
+
+// Label and chip color for each filter
+export const COLOR_FAMILY_SWATCHES: Record<ColorFamily, { label: string; color: string }> = {
+  red: { label: "Red", color: "#C8102E" },
+  pink: { label: "Pink", color: "#F48FB1" },
+  orange: { label: "Orange", color: "#FF7F50" },
+  yellow: { label: "Yellow", color: "#FFC857" },
+  green: { label: "Green", color: "#3CB371" },
+  blue: { label: "Blue", color: "#4169E1" },
+  purple: { label: "Purple", color: "#9370DB" },
+  nude: { label: "Nude", color: "#D9A88F" },
+  neutral: { label: "White & Gray", color: "#E5E7EB" },
+}
+
+export type DesignFilters = {
+  query: string // Matched against names, descriptions and tags
+  category: DesignCategory | null
+  colorFamily: ColorFamily | null
+  favoriteIds: string[] | null // Only these designs when set
+}
+
+export const NO_DESIGN_FILTERS: DesignFilters = { query: "", category: null, colorFamily: null, favoriteIds: null }
+
+// Colors fainter than this barely show on the nail, so they don't count towards a family
+const MIN_VISIBLE_ALPHA = 0.25
+
+function getColorFamily({ r, g, b, a }: RGBA): ColorFamily | null {
+  if (a < MIN_VISIBLE_ALPHA) return null
+
+  const max = Math.max(r, g, b) / 255
+  const min = Math.min(r, g, b) / 255
+  const lightness = (max + min) / 2
+  const chroma = max - min
+  const saturation = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1))
+  if (saturation < 0.2 || lightness > 0.93 || lightness < 0.1) return "neutral"
+
+  let hue = 0
+  if (max === r / 255) hue = 60 * (((g - b) / 255 / chroma) % 6)
+  else if (max === g / 255) hue = 60 * ((b - r) / 255 / chroma + 2)
+  else hue = 60 * ((r - g) / 255 / chroma + 4)
+  if (hue < 0) hue += 360
+
+  // Skin tones: light, muted warm colors
+  if (hue < 45 && lightness > 0.6 && saturation < 0.75) return "nude"
+  if (hue < 15 || hue >= 345) return lightness > 0.7 ? "pink" : "red"
+  if (hue < 45) return "orange"
+  if (hue < 70) return "yellow"
+  if (hue < 170) return "green"
+  if (hue < 255) return "blue"
+  if (hue < 290) return "purple"
+  return "pink"
+}
+
+/**
+ * Returns the colors a design is painted with, base color first. Designs made from a
+ * photo have no base color of their own.
+ */
+export function getDesignColors(design: NailDesign): string[] {
+  const colors = [
+    ...(design.texture ? [] : design.gradient ? [design.gradient.from, design.gradient.to] : [design.baseColor]),
+    ...(design.tip.style !== "none" ? [design.tip.color, design.tip.outlineColor] : []),
+    design.finishColor,
+    ...design.decals.map((decal) => decal.color),
+  ]
+  return colors.filter((color): color is string => !!color)
+}
+
+/**
+ * Returns the color families of every color painted on a design: its base or
+ * gradient, tip, finish tint and decals.
+ */
+export function getDesignColorFamilies(design: NailDesign): ColorFamily[] {
+  const families = getDesignColors(design)
+    .map((color) => parseColor(color))
+    .map((color) => (color ? getColorFamily(color) : null))
+    .filter((family): family is ColorFamily => family !== null)
+  return COLOR_FAMILIES.filter((family) => families.includes(family))
+}
+
+export function matchesDesignFilters(design: NailDesign, { query, category, colorFamily, favoriteIds }: DesignFilters) {
+  if (category && design.category !== category) return false
+  if (favoriteIds && !favoriteIds.includes(design.id)) return false
+  if (colorFamily && !getDesignColorFamilies(design).includes(colorFamily)) return false
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const text = [design.name, design.description, DESIGN_CATEGORY_LABELS[design.category], ...design.tags]
+    .join(" ")
+    .toLowerCase()
+  return words.every((word) => text.includes(word))
+}
+
+/**
+ * Returns the tags used by the given designs, most common first.
+ */
+export function listDesignTags(designs: NailDesign[]): string[] {
+  const counts = new Map<string, number>()
+  designs.forEach((design) => design.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)))
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b))
+}
@@ -0,0 +1,39 @@
+import { DESIGN_TEXTURE_HEIGHT, DESIGN_TEXTURE_WIDTH, traceNailOutline } from "@/lib/designs/shape"
+import { createCanvas, getContext2D, type TryOnCanvas, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// Area of a photo covering one nail, in image pixels. The box is rotated around its
+// center, and its top edge (before rotation) is the nail's free edge.
+export type NailCrop = {
+  centerX: number
+  centerY: number
+  width: number
+  height: number
+  angle: number // Degrees, clockwise
+}
+
+/**
+ * Cuts a nail out of a photo and turns it into a design texture: the crop is rotated
+ * upright, stretched to the texture size and given the nail outline as its alpha.
+ * Reuses `canvas` when given, otherwise creates a new one.
+ */
+export function createPhotoTexture(image: TryOnImageSource, crop: NailCrop, canvas?: TryOnCanvas): TryOnCanvas {
+  const target = canvas ?? createCanvas(DESIGN_TEXTURE_WIDTH, DESIGN_TEXTURE_HEIGHT)
+  target.width = DESIGN_TEXTURE_WIDTH
+  target.height = DESIGN_TEXTURE_HEIGHT
+
+  const ctx = getContext2D(target)
+  ctx.clearRect(0, 0, target.width, target.height)
+
+  ctx.save()
+  traceNailOutline(ctx)
+  ctx.clip()
+  // Map the crop box onto the texture: undo its rotation, then scale it to fit
+  ctx.translate(DESIGN_TEXTURE_WIDTH / 2, DESIGN_TEXTURE_HEIGHT / 2)
+  ctx.scale(DESIGN_TEXTURE_WIDTH / crop.width, DESIGN_TEXTURE_HEIGHT / crop.height)
+  ctx.rotate((-crop.angle * Math.PI) / 180)
+  ctx.translate(-crop.centerX, -crop.centerY)
+  ctx.drawImage(image, 0, 0)
+  ctx.restore()
+
+  return target
+}
@@ -0,0 +1,122 @@
+import catalog from "@/lib/designs/catalog.json"
+import { renderDesign } from "@/lib/designs/render"
+import {
+  customDesignSchema,
+  designCatalogSchema,
+  nailDesignSchema,
+  type NailDesign,
+  type NailShapeOptions,
+} from "@/lib/designs/schema"
+import { getDesignShape } from "@/lib/designs/shape"
+import type { TryOnCanvas, TryOnImageSource } from "@/lib/try-on/canvas"
+
+export type DesignValidationError = {
+  index: number
+  id?: string
+  message: string
+}
+
+const designs = new Map<string, NailDesign>()
+// Rendered textures per design, keyed by the nail shape they were rendered for
+const textures = new Map<string, Map<string, TryOnCanvas>>()
+// Decoded `texture` images of designs that have one
+const textureImages = new Map<string, TryOnImageSource>()
+
+/**
+ * Validates a design spec and adds it to the registry, replacing any design with the same ID.
+ * Throws a `ZodError` if the spec is invalid.
+ */
+export function registerDesign(input: unknown): NailDesign {
+  const design = nailDesignSchema.parse(input)
+  designs.set(design.id, design)
+  textures.delete(design.id)
+  return design
+}
+
+/**
+ * Registers every valid design in a catalog document. Invalid entries are skipped
+ * and reported so that one bad design cannot take down the whole catalog.
+ */
+export function loadDesignCatalog(input: unknown): DesignValidationError[] {
+  const parsedCatalog = designCatalogSchema.safeParse(input)
+  if (!parsedCatalog.success) {
+    return [{ index: -1, message: parsedCatalog.error.message }]
+  }
+
+  const errors: DesignValidationError[] = []
+  parsedCatalog.data.designs.forEach((entry, index) => {
+    const parsed = nailDesignSchema.safeParse(entry)
+    if (parsed.success) {
+      designs.set(parsed.data.id, parsed.data)
+      textures.delete(parsed.data.id)
+    } else {
+      const id = typeof entry === "object" && entry !== null && "id" in entry ? String(entry.id) : undefined
+      errors.push({
+        index,
+        id,
+        message: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      })
+    }
+  })
+  return errors
+}
+
+async function decodeTextureImage(src: string): Promise<TryOnImageSource> {
+  const blob = await (await fetch(src)).blob()
+  return createImageBitmap(blob)
+}
+
+/**
+ * Validates and registers a design like `registerDesign`, first decoding its `texture`
+ * image if it has one. Use this for designs created by users, which usually do.
+ * Throws a `ZodError` for IDs outside the custom design namespace, so a user's design
+ * can never replace one from the catalog.
+ */
+export async function registerCustomDesign(input: unknown): Promise<NailDesign> {
+  const design = customDesignSchema.parse(input)
+  if (design.texture) {
+    textureImages.set(design.id, await decodeTextureImage(design.texture))
+  } else {
+    textureImages.delete(design.id)
+  }
+  designs.set(design.id, design)
+  textures.delete(design.id)
+  return design
+}
+
+export function getDesign(id: string): NailDesign | undefined {
+  return designs.get(id)
+}
+
+export function listDesigns(): NailDesign[] {
+  return Array.from(designs.values())
+}
+
+/**
+ * Returns the rendered texture for a registered design, rendering it on first use.
+ * Renders for the design's own shape and length unless `nailShape` is given.
+ */
+export function getDesignTexture(id: string, nailShape?: NailShapeOptions): TryOnCanvas | undefined {
+  const design = designs.get(id)
+  if (!design) return undefined
+
+  const shape = nailShape ?? getDesignShape(design)
+  const key = `${shape.shape}:${shape.length}`
+  let shapeTextures = textures.get(id)
+  if (!shapeTextures) {
+    shapeTextures = new Map()
+    textures.set(id, shapeTextures)
+  }
+
+  const cached = shapeTextures.get(key)
+  if (cached) return cached
+
+  const texture = renderDesign(design, undefined, textureImages.get(id), shape)
+  shapeTextures.set(key, texture)
+  return texture
+}
+
+const catalogErrors = loadDesignCatalog(catalog)
+catalogErrors.forEach((error) => {
+  console.error(`Skipping invalid nail design ${error.id ?? `#${error.index}`}: ${error.message}`)
+})
@@ -0,0 +1,200 @@
+import type { Decal, NailDesign, NailShapeOptions } from "@/lib/designs/schema"
+import { getDesignShape, getDesignTextureSize, getNailBounds, traceNailOutline, type NailBounds } from "@/lib/designs/shape"
+import {
+  createCanvas,
+  getContext2D,
+  type TryOnCanvas,
+  type TryOnContext,
+  type TryOnImageSource,
+} from "@/lib/try-on/canvas"
+
+const TIP_DEPTHS = {
+  none: 0,
+  french: 0.3,
+  "deep-french": 0.45,
+  v: 0.4,
+  diagonal: 0.5,
+} as const
+
+function createBaseFill(ctx: TryOnContext, design: NailDesign, bounds: NailBounds): string | CanvasGradient {
+  if (!design.gradient) return design.baseColor
+
+  const { x, y, width, height } = bounds
+  const { from, to, direction } = design.gradient
+  const gradient =
+    direction === "horizontal"
+      ? ctx.createLinearGradient(x, y, x + width, y)
+      : direction === "diagonal"
+        ? ctx.createLinearGradient(x, y, x + width, y + height)
+        : ctx.createLinearGradient(x, y + height, x, y) // Cuticle to free edge
+  gradient.addColorStop(0, from)
+  gradient.addColorStop(1, to)
+  return gradient
+}
+
+// Traces the edge between the tip and the rest of the nail, from left to right
+function traceTipEdge(ctx: TryOnContext, design: NailDesign, bounds: NailBounds) {
+  const { x, y, width, height } = bounds
+  const depth = height * TIP_DEPTHS[design.tip.style]
+
+  switch (design.tip.style) {
+    case "french":
+    case "deep-french":
+      // Smile line: deeper along the sidewalls than in the middle
+      ctx.moveTo(x, y + depth)
+      ctx.quadraticCurveTo(x + width / 2, y - depth * 0.2, x + width, y + depth)
+      break
+    case "v":
+      ctx.moveTo(x, y)
+      ctx.lineTo(x + width / 2, y + depth)
+      ctx.lineTo(x + width, y)
+      break
+    case "diagonal":
+      ctx.moveTo(x, y + depth)
+      ctx.lineTo(x + width, y)
+      break
+  }
+}
+
+function drawTip(ctx: TryOnContext, design: NailDesign, nailShape: NailShapeOptions) {
+  if (design.tip.style === "none") return
+  const bounds = getNailBounds(nailShape.length)
+  const { x, y, width } = bounds
+
+  ctx.save()
+  traceNailOutline(ctx, nailShape)
+  ctx.clip()
+
+  ctx.beginPath()
+  traceTipEdge(ctx, design, bounds)
+  ctx.lineTo(x + width, y - 1)
+  ctx.lineTo(x, y - 1)
+  ctx.closePath()
+  ctx.fillStyle = design.tip.color
+  ctx.fill()
+
+  if (design.tip.outlineColor) {
+    ctx.beginPath()
+    traceTipEdge(ctx, design, bounds)
+    ctx.lineWidth = 5
+    ctx.lineJoin = "round"
+    ctx.strokeStyle = design.tip.outlineColor
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+function traceStar(ctx: TryOnContext, radius: number) {
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? radius : radius * 0.45
+    const angle = (i * Math.PI) / 5 - Math.PI / 2
+    ctx.lineTo(Math.cos(angle) * r, Math.sin(angle) * r)
+  }
+  ctx.closePath()
+}
+
+function traceHeart(ctx: TryOnContext, radius: number) {
+  ctx.moveTo(0, radius * 0.9)
+  ctx.bezierCurveTo(-radius * 1.4, -radius * 0.1, -radius * 0.6, -radius * 1.1, 0, -radius * 0.4)
+  ctx.bezierCurveTo(radius * 0.6, -radius * 1.1, radius * 1.4, -radius * 0.1, 0, radius * 0.9)
+  ctx.closePath()
+}
+
+function drawDecal(ctx: TryOnContext, decal: Decal, bounds: NailBounds) {
+  const { x, y, width, height } = bounds
+  const radius = (decal.size * width) / 2
+
+  ctx.save()
+  ctx.translate(x + decal.x * width, y + decal.y * height)
+  ctx.rotate((decal.rotation * Math.PI) / 180)
+  ctx.fillStyle = decal.color
+  ctx.strokeStyle = decal.color
+  ctx.beginPath()
+
+  switch (decal.type) {
+    case "dot":
+      ctx.arc(0, 0, radius, 0, 2 * Math.PI)
+      ctx.fill()
+      break
+    case "star":
+      traceStar(ctx, radius)
+      ctx.fill()
+      break
+    case "heart":
+      traceHeart(ctx, radius)
+      ctx.fill()
+      break
+    case "stripe":
+      // Stripes span the whole nail; the outline clip trims them
+      ctx.lineWidth = radius / 2
+      ctx.moveTo(-width, 0)
+      ctx.lineTo(width, 0)
+      ctx.stroke()
+      break
+    case "flower":
+      for (let petal = 0; petal < 5; petal++) {
+        const angle = (petal * 2 * Math.PI) / 5
+        ctx.moveTo(Math.cos(angle) * radius * 0.55 + radius * 0.45, Math.sin(angle) * radius * 0.55)
+        ctx.arc(Math.cos(angle) * radius * 0.55, Math.sin(angle) * radius * 0.55, radius * 0.45, 0, 2 * Math.PI)
+      }
+      ctx.fill()
+      ctx.beginPath()
+      ctx.arc(0, 0, radius * 0.3, 0, 2 * Math.PI)
+      ctx.fillStyle = "rgba(255, 255, 255, 0.9)"
+      ctx.fill()
+      break
+  }
+  ctx.restore()
+}
+
+/**
+ * Draws a nail design onto a texture canvas with a transparent background.
+ * Reuses `canvas` when given, otherwise creates a new one. Designs with a `texture`
+ * need its decoded image as `textureImage`; without it the base color is drawn instead.
+ * `nailShape` overrides the design's own shape and length, which also set the texture size.
+ * The finish is not part of the texture; see `applyFinish`.
+ */
+export function renderDesign(
+  design: NailDesign,
+  canvas?: TryOnCanvas,
+  textureImage?: TryOnImageSource,
+  nailShape: NailShapeOptions = getDesignShape(design),
+): TryOnCanvas {
+  const { width, height } = getDesignTextureSize(nailShape.length)
+  const target = canvas ?? createCanvas(width, height)
+  target.width = width
+  target.height = height
+
+  const ctx = getContext2D(target)
+  const bounds = getNailBounds(nailShape.length)
+
+  ctx.clearRect(0, 0, target.width, target.height)
+  ctx.save()
+  ctx.globalAlpha = design.opacity
+
+  traceNailOutline(ctx, nailShape)
+  if (textureImage) {
+    // Photo textures are stretched along extensions, like polish painted onto a tip
+    ctx.save()
+    ctx.clip()
+    ctx.drawImage(textureImage, 0, 0, width, height)
+    ctx.restore()
+  } else {
+    ctx.fillStyle = createBaseFill(ctx, design, bounds)
+    ctx.fill()
+  }
+
+  drawTip(ctx, design, nailShape)
+
+  if (design.decals.length > 0) {
+    ctx.save()
+    traceNailOutline(ctx, nailShape)
+    ctx.clip()
+    design.decals.forEach((decal) => drawDecal(ctx, decal, bounds))
+    ctx.restore()
+  }
+
+  ctx.restore()
+
+  return target
+}
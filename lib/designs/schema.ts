@@ -0,0 +1,100 @@
+import { z } from "zod"
+import { isValidColor } from "@/lib/color"
+
+export const TIP_STYLES = ["none", "french", "deep-french", "v", "diagonal"] as const
+export const FINISHES = ["gloss", "matte", "chrome", "glitter", "cat-eye"] as const
+export const DECAL_TYPES = ["dot", "star", "heart", "stripe", "flower"] as const
+export const GRADIENT_DIRECTIONS = ["vertical", "horizontal", "diagonal"] as const
+export const DESIGN_CATEGORIES = ["french", "solid", "ombre", "art"] as const
+export const NAIL_SHAPES = ["natural", "square", "oval", "almond", "stiletto", "coffin"] as const
+// Longest extension past the free edge, in nail-plate lengths
+export const MAX_NAIL_LENGTH = 1.5
+// Designs users create get IDs of their own, so they can't stand in for catalog designs
+export const CUSTOM_DESIGN_ID_PREFIX = "custom-"
+
+const colorSchema = z.string().refine(isValidColor, {
+  message: "Expected a hex, rgb() or rgba() color",
+})
+
+// Positions and sizes are fractions of the nail, with (0, 0) at the left of the free edge
+const unitSchema = z.number().min(0).max(1)
+
+export const decalSchema = z.object({
+  type: z.enum(DECAL_TYPES),
+  color: colorSchema,
+  x: unitSchema,
+  y: unitSchema,
+  size: unitSchema.default(0.15),
+  rotation: z.number().default(0), // Degrees
+})
+
+export const gradientSchema = z.object({
+  from: colorSchema,
+  to: colorSchema,
+  direction: z.enum(GRADIENT_DIRECTIONS).default("vertical"),
+})
+
+export const tipSchema = z.object({
+  style: z.enum(TIP_STYLES).default("none"),
+  color: colorSchema.default("#FFFFFF"),
+  outlineColor: colorSchema.optional(),
+})
+
+const nailLengthSchema = z.number().min(0).max(MAX_NAIL_LENGTH)
+
+// Shape and length of the nail the design is painted on. A length above 0 previews an
+// extension, e.g. acrylics, reaching past the natural free edge.
+export const nailShapeSchema = z.object({
+  shape: z.enum(NAIL_SHAPES).default("natural"),
+  length: nailLengthSchema.default(0),
+})
+
+export const nailDesignSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Design IDs must be lowercase kebab-case"),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  category: z.enum(DESIGN_CATEGORIES).default("solid"),
+  tags: z.array(z.string().min(1)).default([]), // Searchable keywords, e.g. occasions or styles
+  baseColor: colorSchema,
+  gradient: gradientSchema.optional(), // Replaces the flat base color when set
+  // Image covering the whole nail, e.g. cropped from a photo, as a data URL.
+  // Replaces the base color and gradient; tips and decals go on top.
+  texture: z
+    .string()
+    .regex(/^data:image\/(png|jpeg|webp);base64,/, "Expected a PNG, JPEG or WebP data URL")
+    .optional(),
+  tip: tipSchema.default({}),
+  opacity: unitSchema.default(1),
+  // Shaded per nail when the design is worn, so highlights follow the light in the photo
+  finish: z.enum(FINISHES).default("gloss"),
+  finishColor: colorSchema.optional(), // Tints chrome, glitter particles and the cat-eye band
+  // Suggested nail shape and length; customers can try the design on any other
+  shape: z.enum(NAIL_SHAPES).default("natural"),
+  length: nailLengthSchema.default(0),
+  decals: z.array(decalSchema).default([]),
+})
+
+// A design created by a user, e.g. one that came with a saved or shared look
+export const customDesignSchema = nailDesignSchema.refine((design) => isCustomDesignId(design.id), {
+  message: `Custom design IDs must start with "${CUSTOM_DESIGN_ID_PREFIX}"`,
+  path: ["id"],
+})
+
+export const designCatalogSchema = z.object({
+  designs: z.array(z.unknown()),
+})
+
+export function isCustomDesignId(id: string): boolean {
+  return id.startsWith(CUSTOM_DESIGN_ID_PREFIX)
+}
+
+export type DesignCategory = (typeof DESIGN_CATEGORIES)[number]
+export type TipStyle = (typeof TIP_STYLES)[number]
+export type Finish = (typeof FINISHES)[number]
+export type DecalType = (typeof DECAL_TYPES)[number]
+export type NailShape = (typeof NAIL_SHAPES)[number]
+export type NailShapeOptions = z.infer<typeof nailShapeSchema>
+export type Decal = z.infer<typeof decalSchema>
+export type NailDesign = z.infer<typeof nailDesignSchema>
+// What designers write in the catalog, before defaults are applied
+export type NailDesignInput = z.input<typeof nailDesignSchema>
@@ -0,0 +1,120 @@
+import type { NailDesign, NailShape, NailShapeOptions } from "@/lib/designs/schema"
+import type { TryOnContext } from "@/lib/try-on/canvas"
+
+// Textures are warped onto the nail plate, so they are laid out upright:
+// the free edge along the top and the cuticle along the bottom
+export const DESIGN_TEXTURE_WIDTH = 160
+export const DESIGN_TEXTURE_HEIGHT = 200
+
+// Margin between the nail and the texture edges, so antialiased edges aren't cut off
+const MARGIN = 4
+// Height of the natural nail plate within the texture
+const PLATE_HEIGHT = DESIGN_TEXTURE_HEIGHT - 2 * MARGIN
+const CUTICLE_DEPTH = PLATE_HEIGHT * 0.12
+const NATURAL_FREE_EDGE_DEPTH = PLATE_HEIGHT * 0.3
+
+export const NATURAL_NAIL: NailShapeOptions = { shape: "natural", length: 0 }
+
+export const NAIL_SHAPE_LABELS: Record<NailShape, string> = {
+  natural: "Natural",
+  square: "Square",
+  oval: "Oval",
+  almond: "Almond",
+  stiletto: "Stiletto",
+  coffin: "Coffin",
+}
+
+export type NailBounds = { x: number; y: number; width: number; height: number }
+
+export function getDesignShape(design: Pick<NailDesign, "shape" | "length">): NailShapeOptions {
+  return { shape: design.shape, length: design.length }
+}
+
+/**
+ * Returns the texture size for a nail. Extensions add to the top of the texture, past
+ * the free edge, so the natural plate keeps the same proportions at any length.
+ */
+export function getDesignTextureSize(length: number): { width: number; height: number } {
+  return { width: DESIGN_TEXTURE_WIDTH, height: Math.round(DESIGN_TEXTURE_HEIGHT + PLATE_HEIGHT * length) }
+}
+
+/**
+ * Returns how far a texture of the given length reaches past the free edge, as a
+ * fraction of the natural nail, so it can be fitted to the nail detected in a photo.
+ */
+export function getExtensionRatio(length: number): number {
+  return getDesignTextureSize(length).height / DESIGN_TEXTURE_HEIGHT - 1
+}
+
+// Area of the texture covered by the nail, extension included
+export function getNailBounds(length: number): NailBounds {
+  const { width, height } = getDesignTextureSize(length)
+  return { x: MARGIN, y: MARGIN, width: width - 2 * MARGIN, height: height - 2 * MARGIN }
+}
+
+// Traces the free edge from the left sidewall to the right one
+function traceFreeEdge(ctx: TryOnContext, shape: NailShape, { x, y, width, height }: NailBounds) {
+  const centerX = x + width / 2
+  // Tapered shapes can't taper past the cuticle curve
+  const maxDepth = height - CUTICLE_DEPTH - 1
+  const depth = (fraction: number, minimum = 0) => Math.min(Math.max(height * fraction, minimum), maxDepth)
+
+  switch (shape) {
+    case "natural": {
+      const freeEdgeDepth = Math.min(NATURAL_FREE_EDGE_DEPTH, maxDepth)
+      ctx.ellipse(centerX, y + freeEdgeDepth, width / 2, freeEdgeDepth, 0, Math.PI, 2 * Math.PI)
+      break
+    }
+    case "oval": {
+      const tipDepth = depth(0, width * 0.5)
+      ctx.ellipse(centerX, y + tipDepth, width / 2, tipDepth, 0, Math.PI, 2 * Math.PI)
+      break
+    }
+    case "square": {
+      const radius = width * 0.08
+      ctx.moveTo(x, y + radius)
+      ctx.arcTo(x, y, x + radius, y, radius)
+      ctx.arcTo(x + width, y, x + width, y + radius, radius)
+      break
+    }
+    case "coffin": {
+      // Tapered sidewalls ending in a flat, slightly rounded free edge
+      const tipDepth = depth(0.45, width * 0.5)
+      const tipHalfWidth = width * 0.28
+      ctx.moveTo(x, y + tipDepth)
+      ctx.quadraticCurveTo(x + width * 0.04, y + tipDepth * 0.4, centerX - tipHalfWidth, y + 2)
+      ctx.quadraticCurveTo(centerX, y - 1, centerX + tipHalfWidth, y + 2)
+      ctx.quadraticCurveTo(x + width * 0.96, y + tipDepth * 0.4, x + width, y + tipDepth)
+      break
+    }
+    case "almond": {
+      // Slim sidewalls meeting in a rounded point
+      const tipDepth = depth(0.55, width * 0.7)
+      ctx.moveTo(x, y + tipDepth)
+      ctx.bezierCurveTo(x, y + tipDepth * 0.35, centerX - width * 0.14, y, centerX, y)
+      ctx.bezierCurveTo(centerX + width * 0.14, y, x + width, y + tipDepth * 0.35, x + width, y + tipDepth)
+      break
+    }
+    case "stiletto": {
+      const tipDepth = depth(0.7, width * 0.9)
+      ctx.moveTo(x, y + tipDepth)
+      ctx.quadraticCurveTo(x + width * 0.06, y + tipDepth * 0.3, centerX, y)
+      ctx.quadraticCurveTo(x + width * 0.94, y + tipDepth * 0.3, x + width, y + tipDepth)
+      break
+    }
+  }
+}
+
+/**
+ * Traces the outline of a nail in a texture laid out by `getDesignTextureSize`:
+ * straight sidewalls, the free edge in the given shape and a shallow cuticle curve.
+ */
+export function traceNailOutline(ctx: TryOnContext, { shape, length }: NailShapeOptions = NATURAL_NAIL) {
+  const bounds = getNailBounds(length)
+  const { x, y, width, height } = bounds
+  ctx.beginPath()
+  traceFreeEdge(ctx, shape, bounds)
+  ctx.lineTo(x + width, y + height - CUTICLE_DEPTH)
+  ctx.ellipse(x + width / 2, y + height - CUTICLE_DEPTH, width / 2, CUTICLE_DEPTH, 0, 0, Math.PI)
+  ctx.closePath()
+}
@@ -0,0 +1,28 @@
+import { applyFinish } from "@/lib/designs/finish"
+import { getDesignTexture } from "@/lib/designs/registry"
+import type { NailDesign } from "@/lib/designs/schema"
+import { getDesignShape } from "@/lib/designs/shape"
+import { DEFAULT_LIGHT_DIRECTION } from "@/lib/light-direction"
+import { canvasToDataUrl } from "@/lib/try-on/canvas"
+
+/**
+ * Renders a registered design with its finish as an image URL, for palettes and galleries.
+ * Swatches are upright, so the default light needs no conversion to texture space.
+ * Returns null for designs that aren't registered.
+ */
+export async function renderDesignSwatch(design: NailDesign): Promise<string | null> {
+  const texture = getDesignTexture(design.id)
+  if (!texture) return null
+  const swatch = applyFinish(texture, design, DEFAULT_LIGHT_DIRECTION, { nailShape: getDesignShape(design) })
+  return canvasToDataUrl(swatch)
+}
+
+/**
+ * Renders swatches for several designs, keyed by design ID.
+ */
+export async function renderDesignSwatches(designs: NailDesign[]): Promise<Record<string, string>> {
+  const entries = await Promise.all(
+    designs.map(async (design) => [design.id, await renderDesignSwatch(design)] as const),
+  )
+  return Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry[1] !== null))
+}
@@ -0,0 +1,239 @@
+import { parseColor, toHexString, type RGBA } from "@/lib/color"
+import {
+  createCanvas,
+  getContext2D,
+  getImageSize,
+  type TryOnCanvas,
+  type TryOnContext,
+  type TryOnImageSource,
+} from "@/lib/try-on/canvas"
+
+export const EXPORT_FORMATS = ["png", "jpeg", "webp"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_DETAILS: Record<
+  ExportFormat,
+  { label: string; mimeType: string; extension: string; isLossy: boolean }
+> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", isLossy: false },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", isLossy: true },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", isLossy: true },
+}
+
+export const WATERMARK_POSITIONS = ["bottom-right", "bottom-left", "top-right", "top-left"] as const
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number]
+
+export const WATERMARK_POSITION_LABELS: Record<WatermarkPosition, string> = {
+  "bottom-right": "Bottom right",
+  "bottom-left": "Bottom left",
+  "top-right": "Top right",
+  "top-left": "Top left",
+}
+
+// A salon's name and logo stamped in a corner of the photo
+export type ExportWatermark = {
+  text: string
+  logo?: TryOnImageSource
+  position: WatermarkPosition
+  opacity?: number // Defaults to 0.85
+}
+
+// The photo beside a panel listing the designs worn, sized for social media
+export type ExportCard = {
+  title: string
+  designs: { name: string; colors: string[] }[]
+  footer?: string // E.g. the salon's name or handle
+}
+
+const CARD_BACKGROUND = "#FFF1F5"
+const CARD_ACCENT = "#DB2777"
+const CARD_TEXT = "#1F2937"
+const CARD_MUTED_TEXT = "#6B7280"
+// Colors listed per design; more won't fit beside the swatches
+const MAX_CARD_COLORS = 4
+
+/**
+ * Looks up the format of an encoded image. Browsers that can't encode a format fall
+ * back to PNG, so check the blob rather than what was asked for.
+ */
+export function getExportFormat(mimeType: string): ExportFormat {
+  return EXPORT_FORMATS.find((format) => EXPORT_FORMAT_DETAILS[format].mimeType === mimeType) ?? "png"
+}
+
+/**
+ * Stamps a watermark in a corner of the image already drawn on `ctx`. Sizes follow the
+ * image, so the watermark looks the same at any resolution.
+ */
+export function drawWatermark(
+  ctx: TryOnContext,
+  width: number,
+  height: number,
+  { text, logo, position, opacity = 0.85 }: ExportWatermark,
+) {
+  const unit = Math.min(width, height)
+  const margin = unit * 0.03
+  const fontSize = Math.max(12, Math.round(unit * 0.035))
+  const logoSize = logo ? getImageSize(logo) : null
+  const logoHeight = logoSize ? unit * 0.08 : 0
+  const logoWidth = logoSize ? (logoSize.width / logoSize.height) * logoHeight : 0
+  const gap = logo && text ? fontSize * 0.5 : 0
+
+  ctx.save()
+  ctx.font = `600 ${fontSize}px sans-serif`
+  const textWidth = text ? ctx.measureText(text).width : 0
+  const blockWidth = logoWidth + gap + textWidth
+  const blockHeight = Math.max(logoHeight, text ? fontSize : 0)
+  const left = position.endsWith("left") ? margin : width - margin - blockWidth
+  const top = position.startsWith("top") ? margin : height - margin - blockHeight
+
+  ctx.globalAlpha = opacity
+  if (logo) {
+    ctx.drawImage(logo, left, top + (blockHeight - logoHeight) / 2, logoWidth, logoHeight)
+  }
+  if (text) {
+    // A soft shadow keeps white text readable on light photos
+    ctx.shadowColor = "rgba(0, 0, 0, 0.5)"
+    ctx.shadowBlur = fontSize * 0.3
+    ctx.fillStyle = "#FFFFFF"
+    ctx.textBaseline = "middle"
+    ctx.fillText(text, left + logoWidth + gap, top + blockHeight / 2)
+  }
+  ctx.restore()
+}
+
+function fitText(ctx: TryOnContext, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}…`
+}
+
+/**
+ * Lays a photo out beside a panel with the card's title, each design's name and its
+ * colors as swatches with hex codes.
+ */
+export function renderBrandedCard(
+  photo: TryOnImageSource,
+  { title, designs, footer }: ExportCard,
+  canvas?: TryOnCanvas,
+): TryOnCanvas {
+  const { width: photoWidth, height: photoHeight } = getImageSize(photo)
+  const padding = Math.round(photoHeight * 0.05)
+  const panelWidth = Math.round(photoHeight * 0.7)
+  const target = canvas ?? createCanvas(1, 1)
+  target.width = padding + photoWidth + padding + panelWidth + padding
+  target.height = padding + photoHeight + padding
+
+  const ctx = getContext2D(target)
+  ctx.fillStyle = CARD_BACKGROUND
+  ctx.fillRect(0, 0, target.width, target.height)
+  ctx.save()
+  ctx.beginPath()
+  ctx.roundRect(padding, padding, photoWidth, photoHeight, padding * 0.4)
+  ctx.clip()
+  ctx.drawImage(photo, padding, padding, photoWidth, photoHeight)
+  ctx.restore()
+
+  const unit = photoHeight / 24
+  const left = padding * 2 + photoWidth
+  let y = padding
+  ctx.textBaseline = "top"
+
+  ctx.fillStyle = CARD_ACCENT
+  ctx.font = `700 ${Math.round(unit * 1.4)}px sans-serif`
+  ctx.fillText(fitText(ctx, title, panelWidth), left, y)
+  y += unit * 2.4
+
+  const swatchRadius = unit * 0.45
+  for (const design of designs) {
+    if (y + unit * 2.5 > padding + photoHeight - (footer ? unit * 1.5 : 0)) break
+    ctx.fillStyle = CARD_TEXT
+    ctx.font = `600 ${Math.round(unit * 0.9)}px sans-serif`
+    ctx.fillText(fitText(ctx, design.name, panelWidth), left, y)
+    y += unit * 1.3
+
+    const hexCodes = design.colors
+      .map((color) => parseColor(color))
+      .filter((color): color is RGBA => color !== null)
+      .map((color) => toHexString(color).toUpperCase())
+    const colors = Array.from(new Set(hexCodes)).slice(0, MAX_CARD_COLORS)
+    ctx.font = `${Math.round(unit * 0.7)}px monospace`
+    let x = left
+    for (const hex of colors) {
+      const itemWidth = swatchRadius * 2 + unit * 0.3 + ctx.measureText(hex).width + unit * 0.6
+      if (x + itemWidth > left + panelWidth) break
+      ctx.fillStyle = hex
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.15)"
+      ctx.lineWidth = Math.max(1, unit * 0.05)
+      ctx.beginPath()
+      ctx.arc(x + swatchRadius, y + swatchRadius, swatchRadius, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+      ctx.fillStyle = CARD_MUTED_TEXT
+      ctx.fillText(hex, x + swatchRadius * 2 + unit * 0.3, y + swatchRadius - unit * 0.35)
+      x += itemWidth
+    }
+    y += colors.length > 0 ? unit * 1.6 : unit * 0.6
+  }
+
+  if (footer) {
+    ctx.fillStyle = CARD_MUTED_TEXT
+    ctx.font = `500 ${Math.round(unit * 0.8)}px sans-serif`
+    ctx.textBaseline = "bottom"
+    ctx.fillText(fitText(ctx, footer, panelWidth), left, padding + photoHeight)
+  }
+  return target
+}
+
+// Choices in the export dialog, remembered between visits. The logo is picked again each time.
+export type ExportSettings = {
+  format: ExportFormat
+  quality: number // 0 to 1, for lossy formats
+  isFullSize: boolean // Re-render on the full-resolution photo rather than the working copy
+  watermarkText: string
+  watermarkPosition: WatermarkPosition
+  layout: "photo" | "card"
+  cardTitle: string
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "jpeg",
+  quality: 0.92,
+  isFullSize: true,
+  watermarkText: "",
+  watermarkPosition: "bottom-right",
+  layout: "photo",
+  cardTitle: "My Nail Look",
+}
+
+const STORAGE_KEY = "nail-try-on:export-settings"
+
+export function loadExportSettings(): ExportSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}")
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, ...(typeof stored === "object" && stored ? stored : {}) }
+    // Settings saved by another version may no longer be valid
+    if (!EXPORT_FORMATS.includes(settings.format)) settings.format = DEFAULT_EXPORT_SETTINGS.format
+    if (typeof settings.quality !== "number" || !(settings.quality > 0 && settings.quality <= 1)) {
+      settings.quality = DEFAULT_EXPORT_SETTINGS.quality
+    }
+    if (!WATERMARK_POSITIONS.includes(settings.watermarkPosition)) {
+      settings.watermarkPosition = DEFAULT_EXPORT_SETTINGS.watermarkPosition
+    }
+    return settings
+  } catch (err) {
+    console.error("Error reading export settings:", err)
+    return DEFAULT_EXPORT_SETTINGS
+  }
+}
+
+/**
+ * Saves the export settings. Throws if storage is full or unavailable.
+ */
+export function saveExportSettings(settings: ExportSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
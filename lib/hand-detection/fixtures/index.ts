@@ -0,0 +1,12 @@
+import backOfRightHand from "@/lib/hand-detection/fixtures/back-of-right-hand.json"
+import bothHands from "@/lib/hand-detection/fixtures/both-hands.json"
+import noHands from "@/lib/hand-detection/fixtures/no-hands.json"
+
+// Hand landmarks in the format MediaPipe Hands reports them, by name, for use with
+// createMockHandDetector. They are synthetic, placed by hand to match the poses the
+// names describe, rather than recorded from photos.
+export const HAND_LANDMARK_FIXTURES: Record<string, unknown> = {
+  "back-of-right-hand": backOfRightHand,
+  "both-hands": bothHands,
+  "no-hands": noHands,
+}
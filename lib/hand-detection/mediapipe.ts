@@ -0,0 +1,76 @@
+import type { Hands, Results as HandsResults, InputImage } from "@mediapipe/hands"
+import type { HandDetector, HandDetectorInput, HandDetectorMode } from "@/lib/hand-detection/types"
+import { getDetectedHands } from "@/lib/handedness"
+import { loadHands, type LoadHandsOptions } from "@/lib/mediapipe-loader"
+
+// Tracking confidence only applies between consecutive video frames. Keeping it lower
+// than the detection threshold lets the model follow a moving hand without falling
+// back to full palm detection on every frame.
+const LIVE_TRACKING_CONFIDENCE = 0.5
+const DEFAULT_STILL_TRACKING_CONFIDENCE = 0.7
+
+/**
+ * Wraps a MediaPipe `Hands` instance as a HandDetector.
+ *
+ * MediaPipe reports results through a single `onResults` callback rather than from
+ * `send`, so detections are queued and run one at a time to pair each image with its
+ * results. The detector owns the instance from then on and replaces its callback.
+ */
+export function createMediaPipeHandDetector(
+  hands: Hands,
+  stillTrackingConfidence = DEFAULT_STILL_TRACKING_CONFIDENCE,
+): HandDetector {
+  let mode: HandDetectorMode = "still"
+  let queue: Promise<unknown> = Promise.resolve()
+  let receiveResults: ((results: HandsResults) => void) | null = null
+
+  hands.onResults((results) => {
+    receiveResults?.(results)
+    receiveResults = null
+  })
+
+  const runDetection = (image: HandDetectorInput) =>
+    new Promise<HandsResults>((resolve, reject) => {
+      // Each still image is unrelated to the previous one, so drop any tracking state
+      if (mode === "still") hands.reset()
+
+      receiveResults = resolve
+      // Typed for DOM elements only, but MediaPipe uploads any WebGL texture source
+      hands.send({ image: image as InputImage }).then(
+        () => {
+          if (receiveResults === resolve) {
+            receiveResults = null
+            reject(new Error("MediaPipe Hands returned no results"))
+          }
+        },
+        (err) => {
+          receiveResults = null
+          reject(err)
+        },
+      )
+    })
+
+  return {
+    detect: (image, { isMirrored = false } = {}) => {
+      const detection = queue.then(() => runDetection(image)).then((results) => getDetectedHands(results, isMirrored))
+      queue = detection.catch(() => undefined)
+      return detection
+    },
+    setMode: (nextMode) => {
+      mode = nextMode
+      hands.reset()
+      hands.setOptions({
+        minTrackingConfidence: nextMode === "live" ? LIVE_TRACKING_CONFIDENCE : stillTrackingConfidence,
+      })
+    },
+    close: () => hands.close(),
+  }
+}
+
+/**
+ * Loads MediaPipe Hands from the self-hosted assets and wraps it as a HandDetector.
+ */
+export async function loadMediaPipeHandDetector(options: LoadHandsOptions): Promise<HandDetector> {
+  const hands = await loadHands(options)
+  return createMediaPipeHandDetector(hands, options.options.minTrackingConfidence)
+}
@@ -0,0 +1,85 @@
+import { z } from "zod"
+import type { HandDetector, HandDetectorInput, HandDetectorMode } from "@/lib/hand-detection/types"
+import { landmarkSchema } from "@/lib/hand-detection/schema"
+import { getDetectedHands } from "@/lib/handedness"
+
+// MediaPipe Hands output for one image, in the shape `onResults` delivers it
+export const handLandmarkFixtureSchema = z
+  .object({
+    multiHandLandmarks: z.array(z.array(landmarkSchema).length(21)),
+    multiHandedness: z.array(
+      z.object({
+        index: z.number().int(),
+        score: z.number().min(0).max(1),
+        label: z.enum(["Left", "Right"]),
+      }),
+    ),
+  })
+  .refine((fixture) => fixture.multiHandLandmarks.length === fixture.multiHandedness.length, {
+    message: "Every hand needs both landmarks and handedness",
+  })
+
+export type HandLandmarkFixture = z.infer<typeof handLandmarkFixtureSchema>
+
+export type MockHandDetector = HandDetector & {
+  readonly mode: HandDetectorMode
+  readonly calls: string[] // Fixture keys in the order they were requested
+}
+
+export type MockHandDetectorOptions = {
+  // Maps an input to the name of its fixture. Defaults to the input's `src` file name without the extension.
+  getFixtureKey?: (image: HandDetectorInput) => string
+}
+
+function getSourceName(image: HandDetectorInput): string {
+  const src = "src" in image && typeof image.src === "string" ? image.src : ""
+  const fileName = src.split(/[?#]/)[0].split("/").pop() ?? ""
+  return fileName.replace(/\.[^.]*$/, "")
+}
+
+/**
+ * A HandDetector that returns landmarks from fixtures instead of running a model, so
+ * everything downstream of detection can run without a browser, GPU or network.
+ * Fixtures are validated up front and looked up by name; unknown names reject.
+ */
+export function createMockHandDetector(
+  fixtures: Record<string, unknown>,
+  { getFixtureKey = getSourceName }: MockHandDetectorOptions = {},
+): MockHandDetector {
+  const fixturesByName = new Map<string, HandLandmarkFixture>()
+  Object.entries(fixtures).forEach(([name, input]) => {
+    const result = handLandmarkFixtureSchema.safeParse(input)
+    if (!result.success) {
+      throw new Error(`Invalid hand landmark fixture "${name}": ${result.error.issues[0]?.message}`)
+    }
+    fixturesByName.set(name, result.data)
+  })
+
+  let mode: HandDetectorMode = "still"
+  let isClosed = false
+  const calls: string[] = []
+
+  return {
+    get mode() {
+      return mode
+    },
+    calls,
+    detect: async (image, { isMirrored = false } = {}) => {
+      if (isClosed) throw new Error("Mock hand detector is closed")
+
+      const key = getFixtureKey(image)
+      calls.push(key)
+      const fixture = fixturesByName.get(key)
+      if (!fixture) throw new Error(`No hand landmark fixture for "${key}"`)
+
+      // Copy so callers can't modify the fixture
+      return getDetectedHands(structuredClone(fixture), isMirrored)
+    },
+    setMode: (nextMode) => {
+      mode = nextMode
+    },
+    close: async () => {
+      isClosed = true
+    },
+  }
+}
@@ -0,0 +1,16 @@
+import { z } from "zod"
+import { HAND_SIDES } from "@/lib/handedness"
+
+// Normalized to the image size, with z relative to the wrist on roughly the same scale as x
+export const landmarkSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+})
+
+// A DetectedHand as JSON, e.g. when landmarks from client-side detection are sent to the server
+export const detectedHandSchema = z.object({
+  side: z.enum(HAND_SIDES),
+  score: z.number().min(0).max(1).default(1),
+  landmarks: z.array(landmarkSchema).length(21),
+})
@@ -0,0 +1,21 @@
+import type { DetectedHand } from "@/lib/handedness"
+
+// Anything a detector can read pixels from. Workers only have the last two.
+export type HandDetectorInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | ImageBitmap | OffscreenCanvas
+
+// "still" treats every image as unrelated; "live" tracks hands between consecutive video frames
+export type HandDetectorMode = "still" | "live"
+
+export type DetectHandsOptions = {
+  isMirrored?: boolean // True for selfie-style input, see getDetectedHands
+}
+
+/**
+ * Finds hands in an image. The overlay pipeline only depends on this interface, so
+ * MediaPipe can be swapped for another backend, or for recorded landmarks in tests.
+ */
+export type HandDetector = {
+  detect: (image: HandDetectorInput, options?: DetectHandsOptions) => Promise<DetectedHand[]>
+  setMode: (mode: HandDetectorMode) => void
+  close: () => Promise<void>
+}
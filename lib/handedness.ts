@@ -0,0 +1,52 @@
+import type { NormalizedLandmark, Results as HandsResults } from "@mediapipe/hands"
+
+export const HAND_SIDES = ["left", "right"] as const
+
+export type HandSide = (typeof HAND_SIDES)[number]
+
+export type DetectedHand = {
+  side: HandSide
+  score: number // Handedness confidence between 0 and 1
+  landmarks: NormalizedLandmark[]
+}
+
+export const HAND_SIDE_LABELS: Record<HandSide, string> = {
+  left: "Left hand",
+  right: "Right hand",
+}
+
+export function getOppositeSide(side: HandSide): HandSide {
+  return side === "left" ? "right" : "left"
+}
+
+/**
+ * Pairs each set of landmarks with the hand it belongs to.
+ *
+ * MediaPipe labels handedness as if the input were a mirrored selfie, so for regular
+ * photos (`isMirrored` false) the labels are swapped. When both hands come back with
+ * the same label, the less confident one is assumed to be the other hand.
+ */
+export function getDetectedHands(
+  results: Pick<HandsResults, "multiHandLandmarks" | "multiHandedness">,
+  isMirrored = false,
+): DetectedHand[] {
+  const landmarkLists = results.multiHandLandmarks ?? []
+  const handedness = results.multiHandedness ?? []
+
+  const hands: DetectedHand[] = landmarkLists.map((landmarks, i) => {
+    const classification = handedness[i]
+    const mirroredSide: HandSide = classification?.label === "Left" ? "left" : "right"
+    return {
+      side: isMirrored ? mirroredSide : getOppositeSide(mirroredSide),
+      score: classification?.score ?? 0,
+      landmarks,
+    }
+  })
+
+  if (hands.length === 2 && hands[0].side === hands[1].side) {
+    const lessConfident = hands[0].score < hands[1].score ? hands[0] : hands[1]
+    lessConfident.side = getOppositeSide(lessConfident.side)
+  }
+
+  return hands
+}
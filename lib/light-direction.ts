@@ -0,0 +1,67 @@
+import type { DetectedHand } from "@/lib/handedness"
+import type { Point2D } from "@/lib/nail-geometry"
+
+// Unit vector in image space pointing from the hand towards the light
+export type LightDirection = Point2D
+
+// Most photos are lit from above, slightly to one side
+export const DEFAULT_LIGHT_DIRECTION: LightDirection = { x: -0.45, y: -0.89 }
+
+// Below this brightness imbalance the lighting is too even to tell where it comes from
+const MIN_LIGHT_BIAS = 0.015
+
+const SAMPLE_STEP = 4
+
+/**
+ * Estimates where the light comes from by comparing the brightness across each hand:
+ * the side facing the light is brighter. Falls back to `DEFAULT_LIGHT_DIRECTION` when
+ * the hands are evenly lit.
+ */
+export function estimateLightDirection(source: ImageData, hands: DetectedHand[]): LightDirection {
+  const { width, height, data } = source
+  let biasX = 0
+  let biasY = 0
+
+  hands.forEach(({ landmarks }) => {
+    const xs = landmarks.map((landmark) => landmark.x * width)
+    const ys = landmarks.map((landmark) => landmark.y * height)
+    const left = Math.max(0, Math.floor(Math.min(...xs)))
+    const right = Math.min(width - 1, Math.ceil(Math.max(...xs)))
+    const top = Math.max(0, Math.floor(Math.min(...ys)))
+    const bottom = Math.min(height - 1, Math.ceil(Math.max(...ys)))
+    const halfWidth = (right - left) / 2
+    const halfHeight = (bottom - top) / 2
+    if (halfWidth < 1 || halfHeight < 1) return
+
+    // Brightness-weighted centroid relative to the box center, in half-box units
+    let total = 0
+    let sumX = 0
+    let sumY = 0
+    let meanX = 0
+    let meanY = 0
+    let count = 0
+    for (let y = top; y <= bottom; y += SAMPLE_STEP) {
+      for (let x = left; x <= right; x += SAMPLE_STEP) {
+        const i = (y * width + x) * 4
+        const luminance = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+        const dx = (x - left) / halfWidth - 1
+        const dy = (y - top) / halfHeight - 1
+        total += luminance
+        sumX += luminance * dx
+        sumY += luminance * dy
+        meanX += dx
+        meanY += dy
+        count++
+      }
+    }
+    if (total === 0) return
+
+    // Subtract the unweighted centroid so that uneven sampling doesn't count as light
+    biasX += sumX / total - meanX / count
+    biasY += sumY / total - meanY / count
+  })
+
+  const length = Math.hypot(biasX, biasY)
+  if (length < MIN_LIGHT_BIAS * Math.max(hands.length, 1)) return DEFAULT_LIGHT_DIRECTION
+  return { x: biasX / length, y: biasY / length }
+}
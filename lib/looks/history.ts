@@ -0,0 +1,139 @@
+import { LOOK_BUNDLE_VERSION, lookBundleSchema, type LookBundle, type SavedLook } from "@/lib/looks/schema"
+import { blobToDataUrl, canvasToBlob, createCanvas, getContext2D } from "@/lib/try-on/canvas"
+
+// Try-ons saved in the browser. Photos are too large for localStorage, so looks live in IndexedDB.
+
+const DB_NAME = "nail-try-on"
+const DB_VERSION = 1
+const STORE_NAME = "looks"
+
+const THUMBNAIL_SIZE = 320
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((err) => {
+      // Let the next call try again, e.g. after the user frees up storage
+      database = null
+      throw err
+    })
+  }
+  return database
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? request.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("The transaction was aborted"))
+  })
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob()
+}
+
+export function createLookId(): string {
+  return `look-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createLookName(date = new Date()): string {
+  const day = date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+  const time = date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+  return `Look from ${day}, ${time}`
+}
+
+/**
+ * Scales a try-on result down to a JPEG thumbnail for the history list.
+ */
+export async function createLookThumbnail(result: Blob): Promise<Blob> {
+  const image = await createImageBitmap(result)
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height))
+    const canvas = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale))
+    getContext2D(canvas).drawImage(image, 0, 0, canvas.width, canvas.height)
+    return canvasToBlob(canvas, "image/jpeg", 0.85)
+  } finally {
+    image.close()
+  }
+}
+
+/**
+ * Returns every saved look, most recently changed first.
+ */
+export async function listLooks(): Promise<SavedLook[]> {
+  const looks = await runTransaction<SavedLook[]>("readonly", (store) => store.getAll())
+  return looks.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getLook(id: string): Promise<SavedLook | undefined> {
+  return runTransaction<SavedLook | undefined>("readonly", (store) => store.get(id))
+}
+
+/**
+ * Saves a look, replacing any look with the same ID.
+ */
+export async function saveLook(look: SavedLook): Promise<void> {
+  await runTransaction("readwrite", (store) => store.put(look))
+}
+
+export async function renameLook(id: string, name: string): Promise<SavedLook> {
+  const look = await getLook(id)
+  if (!look) throw new Error(`No saved look with ID "${id}"`)
+  const renamed = { ...look, name: name.trim() || look.name, updatedAt: Date.now() }
+  await saveLook(renamed)
+  return renamed
+}
+
+export async function deleteLook(id: string): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(id))
+}
+
+/**
+ * Bundles looks as JSON-friendly data, with their images inlined as data URLs.
+ */
+export async function exportLooks(looks: SavedLook[]): Promise<LookBundle> {
+  return {
+    version: LOOK_BUNDLE_VERSION,
+    looks: await Promise.all(
+      looks.map(async (look) => ({
+        ...look,
+        photo: await blobToDataUrl(look.photo),
+        thumbnail: await blobToDataUrl(look.thumbnail),
+      })),
+    ),
+  }
+}
+
+/**
+ * Validates a bundle made by `exportLooks` and saves its looks, replacing saved looks
+ * with the same IDs. Throws a `ZodError` if the bundle is invalid, before saving anything.
+ */
+export async function importLooks(input: unknown): Promise<SavedLook[]> {
+  const bundle = lookBundleSchema.parse(input)
+  const looks = await Promise.all(
+    bundle.looks.map(async (look) => ({
+      ...look,
+      photo: await dataUrlToBlob(look.photo),
+      thumbnail: await dataUrlToBlob(look.thumbnail),
+    })),
+  )
+  for (const look of looks) {
+    await saveLook(look)
+  }
+  return looks
+}
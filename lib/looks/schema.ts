@@ -0,0 +1,85 @@
+import { z } from "zod"
+import { customDesignSchema, nailShapeSchema } from "@/lib/designs/schema"
+import { FINGERS, type Finger } from "@/lib/manicure"
+import { MAX_NAIL_SCALE, MIN_NAIL_SCALE } from "@/lib/nail-adjustments"
+import { handManicuresSchema, tryOnHandsSchema } from "@/lib/try-on/api"
+
+export const LOOK_BUNDLE_VERSION = 1
+
+const imageDataUrlSchema = z.string().regex(/^data:image\/[a-z+.-]+;base64,/, "Expected an image data URL")
+
+const nailAdjustmentSchema = z.object({
+  offsetX: z.number(),
+  offsetY: z.number(),
+  rotation: z.number(),
+  scale: z.number().min(MIN_NAIL_SCALE).max(MAX_NAIL_SCALE),
+})
+
+const handNailAdjustmentsSchema = z.object(
+  Object.fromEntries(FINGERS.map((finger) => [finger, nailAdjustmentSchema.optional()])) as Record<
+    Finger,
+    z.ZodOptional<typeof nailAdjustmentSchema>
+  >,
+)
+
+export const nailAdjustmentsSchema = z.object({
+  left: handNailAdjustmentsSchema.optional(),
+  right: handNailAdjustmentsSchema.optional(),
+})
+
+// Everything needed to reopen a try-on, apart from the images
+export const lookSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  hands: tryOnHandsSchema,
+  manicures: handManicuresSchema,
+  nailShape: nailShapeSchema.nullable(), // null wears each design in its own shape
+  adjustments: nailAdjustmentsSchema.default({}),
+  matchLighting: z.boolean().default(true),
+  // Custom designs the manicure uses, so the look opens on devices that don't have them
+  customDesigns: z.array(customDesignSchema).default([]),
+})
+
+// Looks exported as JSON carry their images as data URLs
+export const lookBundleSchema = z.object({
+  version: z.literal(LOOK_BUNDLE_VERSION),
+  looks: z.array(lookSchema.extend({ photo: imageDataUrlSchema, thumbnail: imageDataUrlSchema })),
+})
+
+export type LookData = z.infer<typeof lookSchema>
+export type LookBundle = z.infer<typeof lookBundleSchema>
+
+// A look as stored in IndexedDB, which keeps images as blobs
+export type SavedLook = LookData & {
+  photo: Blob // The photo as uploaded
+  thumbnail: Blob // The result, scaled down
+}
+
+// Custom design textures are 160 by 200 pixels, which encode to well under this
+const SHARED_TEXTURE_MAX_LENGTH = 256 * 1024
+
+const sharedCustomDesignSchema = customDesignSchema.refine(
+  (design) => (design.texture?.length ?? 0) <= SHARED_TEXTURE_MAX_LENGTH,
+  { message: `Textures must be smaller than ${SHARED_TEXTURE_MAX_LENGTH / 1024} KB`, path: ["texture"] },
+)
+
+// What is uploaded to share a look as a link. Only the result is shared, not the photo
+// it was made on or the hands found in it.
+export const sharedLookInputSchema = z.object({
+  manicures: handManicuresSchema,
+  nailShape: nailShapeSchema.nullable(),
+  customDesigns: z.array(sharedCustomDesignSchema).max(10).default([]),
+})
+
+export const sharedLookSchema = sharedLookInputSchema.extend({
+  id: z.string().min(1),
+  createdAt: z.number(),
+  imageType: z.enum(["image/jpeg", "image/png", "image/webp"]),
+  imageWidth: z.number().int().positive(),
+  imageHeight: z.number().int().positive(),
+})
+
+export type SharedLookInput = z.input<typeof sharedLookInputSchema>
+export type SharedLook = z.infer<typeof sharedLookSchema>
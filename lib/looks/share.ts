@@ -0,0 +1,71 @@
+import { getDesign } from "@/lib/designs/registry"
+import { isCustomDesignId, type NailDesign } from "@/lib/designs/schema"
+import { HAND_SIDES } from "@/lib/handedness"
+import { sharedLookSchema, type SharedLook, type SharedLookInput } from "@/lib/looks/schema"
+import { FINGERS } from "@/lib/manicure"
+import type { TryOnApiError } from "@/lib/try-on/api"
+
+// Sharing looks as links. POST /api/looks stores a look, /l/<id> shows it and
+// `/?look=<id>` opens the try-on with its manicure.
+
+export const SHARED_LOOK_MAX_IMAGE_BYTES = 5 * 1024 * 1024
+export const SHARED_LOOK_MAX_IMAGE_PIXELS = 16_000_000
+// Room for the most custom designs a look can carry, textures included
+export const SHARED_LOOK_MAX_LOOK_LENGTH = 3 * 1024 * 1024
+export const SHARED_LOOK_MAX_TEXTURE_PIXELS = 1_000_000
+
+export type ShareLookResponse = {
+  id: string
+  url: string // The viewer page, relative to the site
+}
+
+export function getSharedLookPath(id: string): string {
+  return `/l/${id}`
+}
+
+export function getSharedLookImagePath(id: string): string {
+  return `/api/looks/${id}/image`
+}
+
+// Links from the viewer page back to the try-on, with the look ready to wear
+export function getTryLookPath(id: string): string {
+  return `/?look=${encodeURIComponent(id)}`
+}
+
+/**
+ * Returns the designs a shared look wears, in the order they first appear on the hands.
+ * Catalog designs always come from the catalog, never from the look.
+ */
+export function getSharedLookDesigns({ manicures, customDesigns }: SharedLook): NailDesign[] {
+  const ids = new Set(HAND_SIDES.flatMap((side) => FINGERS.map((finger) => manicures[side][finger])))
+  return Array.from(ids)
+    .map((id) => (isCustomDesignId(id) ? customDesigns.find((design) => design.id === id) : getDesign(id)))
+    .filter((design): design is NailDesign => !!design)
+}
+
+async function getErrorMessage(response: Response): Promise<string> {
+  try {
+    const body: TryOnApiError = await response.json()
+    return body.error
+  } catch {
+    return `Request failed with status ${response.status}`
+  }
+}
+
+/**
+ * Uploads a look's result image and manicure, and returns where it can be viewed.
+ */
+export async function shareLook(image: Blob, look: SharedLookInput): Promise<ShareLookResponse> {
+  const form = new FormData()
+  form.append("image", image)
+  form.append("look", JSON.stringify(look))
+  const response = await fetch("/api/looks", { method: "POST", body: form })
+  if (!response.ok) throw new Error(await getErrorMessage(response))
+  return response.json()
+}
+
+export async function fetchSharedLook(id: string): Promise<SharedLook> {
+  const response = await fetch(`/api/looks/${encodeURIComponent(id)}`)
+  if (!response.ok) throw new Error(await getErrorMessage(response))
+  return sharedLookSchema.parse(await response.json())
+}
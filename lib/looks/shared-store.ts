@@ -0,0 +1,77 @@
+import { randomBytes } from "crypto"
+import { mkdir, readdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import { sharedLookSchema, type SharedLook } from "@/lib/looks/schema"
+
+// Looks shared as links, kept on the server's file system: `<id>.json` for the look and
+// `<id>.image` for its result. Set SHARED_LOOKS_DIR to keep them somewhere that survives deploys,
+// and SHARED_LOOKS_MAX_COUNT to change how many looks it holds before refusing new ones.
+
+const SHARED_LOOKS_DIR = process.env.SHARED_LOOKS_DIR ?? path.join(process.cwd(), ".data", "shared-looks")
+const SHARED_LOOKS_MAX_COUNT = Number(process.env.SHARED_LOOKS_MAX_COUNT) || 10000
+
+// IDs are random, so links can't be guessed, and URL-safe, so they can be used in paths
+const SHARED_LOOK_ID = /^[A-Za-z0-9_-]{11}$/
+
+export function isSharedLookId(id: string): boolean {
+  return SHARED_LOOK_ID.test(id)
+}
+
+function getLookPath(id: string, extension: "json" | "image"): string {
+  if (!isSharedLookId(id)) throw new Error(`Invalid shared look ID: ${id}`)
+  return path.join(SHARED_LOOKS_DIR, `${id}.${extension}`)
+}
+
+async function readIfExists(file: string): Promise<Buffer | null> {
+  try {
+    return await readFile(file)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw err
+  }
+}
+
+/**
+ * Whether another look can be stored without going over SHARED_LOOKS_MAX_COUNT.
+ */
+export async function hasRoomForSharedLook(): Promise<boolean> {
+  try {
+    const files = await readdir(SHARED_LOOKS_DIR)
+    return files.filter((file) => file.endsWith(".json")).length < SHARED_LOOKS_MAX_COUNT
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return true
+    throw err
+  }
+}
+
+/**
+ * Stores a look and its result image under a new ID. The image is written first, so a
+ * look is never found without one.
+ */
+export async function saveSharedLook(look: Omit<SharedLook, "id" | "createdAt">, image: Buffer): Promise<SharedLook> {
+  const shared: SharedLook = { ...look, id: randomBytes(8).toString("base64url"), createdAt: Date.now() }
+  await mkdir(SHARED_LOOKS_DIR, { recursive: true })
+  await writeFile(getLookPath(shared.id, "image"), image)
+  await writeFile(getLookPath(shared.id, "json"), JSON.stringify(shared))
+  return shared
+}
+
+/**
+ * Returns the look shared under `id`, or null if there is none.
+ */
+export async function getSharedLook(id: string): Promise<SharedLook | null> {
+  if (!isSharedLookId(id)) return null
+  const data = await readIfExists(getLookPath(id, "json"))
+  if (!data) return null
+  const parsed = sharedLookSchema.safeParse(JSON.parse(data.toString("utf8")))
+  if (!parsed.success) {
+    console.error(`Shared look ${id} is invalid:`, parsed.error)
+    return null
+  }
+  return parsed.data
+}
+
+export async function getSharedLookImage(id: string): Promise<Buffer | null> {
+  if (!isSharedLookId(id)) return null
+  return readIfExists(getLookPath(id, "image"))
+}
@@ -0,0 +1,95 @@
+import type { HandSide } from "@/lib/handedness"
+
+export const FINGERS = ["thumb", "index", "middle", "ring", "pinky"] as const
+
+export type Finger = (typeof FINGERS)[number]
+
+// Design ID for each finger of one hand
+export type Manicure = Record<Finger, string>
+
+// Left and right hands are configured separately
+export type HandManicures = Record<HandSide, Manicure>
+
+export const FINGER_LABELS: Record<Finger, string> = {
+  thumb: "Thumb",
+  index: "Index",
+  middle: "Middle",
+  ring: "Ring",
+  pinky: "Pinky",
+}
+
+export type ManicurePresetOptions = {
+  primary: string
+  accent: string
+  designIds: string[]
+}
+
+export type ManicurePreset = {
+  id: string
+  name: string
+  description: string
+  apply: (options: ManicurePresetOptions) => Manicure
+}
+
+export function createUniformManicure(designId: string): Manicure {
+  return { thumb: designId, index: designId, middle: designId, ring: designId, pinky: designId }
+}
+
+export function createUniformHandManicures(designId: string): HandManicures {
+  return { left: createUniformManicure(designId), right: createUniformManicure(designId) }
+}
+
+export function assignFingerDesign(manicure: Manicure, finger: Finger, designId: string): Manicure {
+  return { ...manicure, [finger]: designId }
+}
+
+/**
+ * Returns the design used on the most fingers, preferring the earlier finger on ties.
+ */
+export function getPrimaryDesignId(manicure: Manicure): string {
+  const counts = new Map<string, number>()
+  FINGERS.forEach((finger) => counts.set(manicure[finger], (counts.get(manicure[finger]) ?? 0) + 1))
+
+  let primary = manicure.thumb
+  counts.forEach((count, designId) => {
+    if (count > (counts.get(primary) ?? 0)) primary = designId
+  })
+  return primary
+}
+
+export const MANICURE_PRESETS: ManicurePreset[] = [
+  {
+    id: "all-same",
+    name: "All Same",
+    description: "One design on every nail",
+    apply: ({ accent }) => createUniformManicure(accent),
+  },
+  {
+    id: "accent-ring",
+    name: "Accent Ring Finger",
+    description: "A statement nail on the ring finger",
+    apply: ({ primary, accent }) => assignFingerDesign(createUniformManicure(primary), "ring", accent),
+  },
+  {
+    id: "accent-ring-middle",
+    name: "Double Accent",
+    description: "Statement nails on the middle and ring fingers",
+    apply: ({ primary, accent }) => ({ ...createUniformManicure(primary), middle: accent, ring: accent }),
+  },
+  {
+    id: "alternating",
+    name: "Alternating",
+    description: "Switch between two designs finger by finger",
+    apply: ({ primary, accent }) => ({ thumb: primary, index: accent, middle: primary, ring: accent, pinky: primary }),
+  },
+  {
+    id: "rainbow",
+    name: "Rainbow",
+    description: "A different design on each nail",
+    apply: ({ accent, designIds }) => {
+      const start = Math.max(designIds.indexOf(accent), 0)
+      const entries = FINGERS.map((finger, i) => [finger, designIds[(start + i) % designIds.length] ?? accent])
+      return Object.fromEntries(entries) as Manicure
+    },
+  },
+]
@@ -0,0 +1,206 @@
+import type { Hands, Options as HandsOptions } from "@mediapipe/hands"
+
+// hands.js registers its classes on the global object when it is evaluated, which is
+// `window` on a page and `self` in a worker
+declare global {
+  interface Window {
+    Hands?: typeof Hands
+    HAND_CONNECTIONS?: [number, number][]
+    drawConnectors?: typeof import("@mediapipe/drawing_utils").drawConnectors
+    drawLandmarks?: typeof import("@mediapipe/drawing_utils").drawLandmarks
+  }
+}
+
+const mediapipeGlobals = globalThis as unknown as Partial<Window>
+
+// Where scripts/copy-mediapipe-assets.mjs puts the model and WASM files
+export const HANDS_ASSET_PATH = "/mediapipe/hands"
+
+export type LoadStage = "downloading" | "initializing" | "ready"
+
+export type LoadProgress = {
+  stage: LoadStage
+  loadedBytes: number
+  totalBytes: number // 0 while the sizes are not known yet
+  attempt: number
+}
+
+export type LoadHandsOptions = {
+  options: HandsOptions
+  onProgress?: (progress: LoadProgress) => void
+  retries?: number
+  timeoutMs?: number // How long a download may stall, or initialization may take
+}
+
+// Smallest module using a SIMD instruction, the same probe MediaPipe uses to pick its WASM build
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+])
+
+function supportsWasmSimd(): boolean {
+  try {
+    return WebAssembly.validate(SIMD_PROBE)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Lists the files Hands fetches while initializing with the given model complexity.
+ */
+export function getHandsAssetFiles(modelComplexity: 0 | 1 = 1): string[] {
+  const isSimd = supportsWasmSimd()
+  const wasmBinary = isSimd ? "hands_solution_simd_wasm_bin" : "hands_solution_wasm_bin"
+  return [
+    "hands_solution_packed_assets_loader.js",
+    "hands_solution_packed_assets.data",
+    `${wasmBinary}.js`,
+    `${wasmBinary}.wasm`,
+    // Only the SIMD build comes with a data file
+    ...(isSimd ? [`${wasmBinary}.data`] : []),
+    "hands.binarypb",
+    modelComplexity === 0 ? "hand_landmark_lite.tflite" : "hand_landmark_full.tflite",
+  ]
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), timeoutMs)
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (err) => {
+        clearTimeout(timer)
+        reject(err)
+      },
+    )
+  })
+}
+
+// Downloads a file into the HTTP and service worker caches, reporting bytes as they arrive.
+// The timeout restarts whenever data comes in, so slow connections are fine but stalls are not.
+async function prefetchFile(url: string, timeoutMs: number, onBytes: (bytes: number, total: number) => void) {
+  const controller = new AbortController()
+  let timer = setTimeout(() => controller.abort(), timeoutMs)
+  const resetTimer = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => controller.abort(), timeoutMs)
+  }
+
+  try {
+    const response = await fetch(url, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url} (${response.status})`)
+    }
+
+    const total = Number(response.headers.get("Content-Length")) || 0
+    onBytes(0, total)
+    if (!response.body) {
+      const buffer = await response.arrayBuffer()
+      onBytes(buffer.byteLength, total)
+      return
+    }
+
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      resetTimer()
+      onBytes(value.byteLength, total)
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out downloading ${url}`)
+    }
+    throw err
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function importHandsConstructor(): Promise<typeof Hands> {
+  const handsModule: Partial<typeof import("@mediapipe/hands")> = await import("@mediapipe/hands")
+  const HandsConstructor = handsModule.Hands ?? mediapipeGlobals.Hands
+  if (!HandsConstructor) {
+    throw new Error("MediaPipe Hands library failed to load")
+  }
+  return HandsConstructor
+}
+
+/**
+ * Downloads the self-hosted MediaPipe Hands assets, then creates and initializes a
+ * `Hands` instance. Failed or stalled attempts are retried with a growing delay.
+ */
+export async function loadHands({
+  options,
+  onProgress,
+  retries = 2,
+  timeoutMs = 30000,
+}: LoadHandsOptions): Promise<Hands> {
+  const files = getHandsAssetFiles(options.modelComplexity)
+  let lastError: unknown
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    let hands: Hands | null = null
+    try {
+      const totals = new Map<string, number>()
+      const loaded = new Map<string, number>()
+      const report = (stage: LoadStage) => {
+        const sum = (values: Map<string, number>) => Array.from(values.values()).reduce((a, b) => a + b, 0)
+        // Only report a total once every file's size is known, so the bar never runs backwards
+        const totalBytes = totals.size === files.length ? sum(totals) : 0
+        onProgress?.({ stage, loadedBytes: sum(loaded), totalBytes, attempt })
+      }
+
+      await Promise.all(
+        files.map((file) =>
+          prefetchFile(`${HANDS_ASSET_PATH}/${file}`, timeoutMs, (bytes, total) => {
+            totals.set(file, total)
+            loaded.set(file, (loaded.get(file) ?? 0) + bytes)
+            report("downloading")
+          }),
+        ),
+      )
+
+      report("initializing")
+      const HandsConstructor = await importHandsConstructor()
+      hands = new HandsConstructor({ locateFile: (file) => `${HANDS_ASSET_PATH}/${file}` })
+      hands.setOptions(options)
+      await withTimeout(hands.initialize(), timeoutMs, "Timed out initializing MediaPipe Hands")
+
+      report("ready")
+      return hands
+    } catch (err) {
+      lastError = err
+      console.error(`Loading MediaPipe Hands failed (attempt ${attempt} of ${retries + 1}):`, err)
+      hands?.close().catch(() => undefined)
+      if (attempt <= retries) {
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error("Failed to load MediaPipe Hands")
+}
+
+/**
+ * Loads the MediaPipe drawing helpers and the hand skeleton connections from the installed packages.
+ */
+export async function loadDrawingUtils() {
+  const [drawingUtils, handsModule]: [
+    Partial<typeof import("@mediapipe/drawing_utils")>,
+    Partial<typeof import("@mediapipe/hands")>,
+  ] = await Promise.all([import("@mediapipe/drawing_utils"), import("@mediapipe/hands")])
+
+  const drawConnectors = drawingUtils.drawConnectors ?? mediapipeGlobals.drawConnectors
+  const drawLandmarks = drawingUtils.drawLandmarks ?? mediapipeGlobals.drawLandmarks
+  const handConnections = handsModule.HAND_CONNECTIONS ?? mediapipeGlobals.HAND_CONNECTIONS
+  if (!drawConnectors || !drawLandmarks || !handConnections) {
+    throw new Error("MediaPipe drawing utils failed to load")
+  }
+  return { drawConnectors, drawLandmarks, handConnections }
+}
+
+export type DrawingUtils = Awaited<ReturnType<typeof loadDrawingUtils>>
@@ -0,0 +1,165 @@
+import type { NailQuad, Point2D } from "@/lib/nail-geometry"
+import { createCanvas, getContext2D, type TryOnContext, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+export type MeshWarpOptions = {
+  columns?: number
+  rows?: number
+  curvature?: number // Arc angle of the surface across its width, in radians; 0 is flat
+}
+
+// How far each triangle's clip path is grown to hide hairline seams, in pixels
+const SEAM_OVERLAP = 0.6
+
+/**
+ * Returns a function mapping the unit square onto `quad` with a projective transform.
+ * (0, 0) is the left corner of the free edge and (1, 1) the right corner of the cuticle.
+ */
+export function createQuadMapping(quad: NailQuad): (u: number, v: number) => Point2D {
+  const { tipLeft: p0, tipRight: p1, cuticleRight: p2, cuticleLeft: p3 } = quad
+
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dx3 = p0.x - p1.x + p2.x - p3.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const dy3 = p0.y - p1.y + p2.y - p3.y
+
+  const det = dx1 * dy2 - dx2 * dy1
+  const g = det === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det
+  const h = det === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det
+
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+
+  return (u, v) => {
+    const w = g * u + h * v + 1
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w }
+  }
+}
+
+function expandTriangle(points: [Point2D, Point2D, Point2D]): [Point2D, Point2D, Point2D] {
+  const cx = (points[0].x + points[1].x + points[2].x) / 3
+  const cy = (points[0].y + points[1].y + points[2].y) / 3
+  return points.map((point) => {
+    const length = Math.hypot(point.x - cx, point.y - cy) || 1
+    return {
+      x: point.x + ((point.x - cx) / length) * SEAM_OVERLAP,
+      y: point.y + ((point.y - cy) / length) * SEAM_OVERLAP,
+    }
+  }) as [Point2D, Point2D, Point2D]
+}
+
+// Draws the part of `texture` inside the source triangle into the destination triangle,
+// replacing whatever was there before
+function drawTexturedTriangle(
+  ctx: TryOnContext,
+  texture: TryOnImageSource,
+  source: [Point2D, Point2D, Point2D],
+  destination: [Point2D, Point2D, Point2D],
+) {
+  const [s0, s1, s2] = source
+  const [d0, d1, d2] = destination
+
+  const denom = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y)
+  if (denom === 0) return
+
+  const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / denom
+  const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / denom
+  const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / denom
+  const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / denom
+  const e = d0.x - a * s0.x - c * s0.y
+  const f = d0.y - b * s0.x - d * s0.y
+
+  const clip = expandTriangle(destination)
+  ctx.save()
+  ctx.beginPath()
+  ctx.moveTo(clip[0].x, clip[0].y)
+  ctx.lineTo(clip[1].x, clip[1].y)
+  ctx.lineTo(clip[2].x, clip[2].y)
+  ctx.closePath()
+  ctx.clip()
+  // Replace the overlapping edge of neighbouring triangles instead of blending over it
+  const clipXs = clip.map((point) => point.x)
+  const clipYs = clip.map((point) => point.y)
+  const clipLeft = Math.min(...clipXs)
+  const clipTop = Math.min(...clipYs)
+  ctx.clearRect(clipLeft, clipTop, Math.max(...clipXs) - clipLeft, Math.max(...clipYs) - clipTop)
+  ctx.transform(a, b, c, d, e, f)
+  ctx.drawImage(texture, 0, 0)
+  ctx.restore()
+}
+
+/**
+ * Draws `texture` onto `quad` as a subdivided mesh so it follows perspective and,
+ * with `curvature`, the curve of the nail across its width. The top edge of the
+ * texture lands on the free edge.
+ *
+ * Neighbouring triangles overlap to hide seams. Drawn straight onto `ctx`, translucent
+ * designs would be blended twice along every seam, so the mesh is built on its own
+ * layer where each triangle replaces what is under it.
+ */
+export function drawTextureToQuad(
+  ctx: TryOnContext,
+  texture: TryOnImageSource,
+  quad: NailQuad,
+  { columns = 6, rows = 4, curvature = 0 }: MeshWarpOptions = {},
+) {
+  const corners = [quad.tipLeft, quad.tipRight, quad.cuticleRight, quad.cuticleLeft]
+  const left = Math.floor(Math.min(...corners.map((point) => point.x)) - SEAM_OVERLAP - 1)
+  const top = Math.floor(Math.min(...corners.map((point) => point.y)) - SEAM_OVERLAP - 1)
+  const right = Math.ceil(Math.max(...corners.map((point) => point.x)) + SEAM_OVERLAP + 1)
+  const bottom = Math.ceil(Math.max(...corners.map((point) => point.y)) + SEAM_OVERLAP + 1)
+  if (right - left <= 0 || bottom - top <= 0) return
+
+  const layer = createCanvas(right - left, bottom - top)
+  const layerCtx = getContext2D(layer)
+  layerCtx.translate(-left, -top)
+
+  const mapToQuad = createQuadMapping(quad)
+  const halfArc = curvature / 2
+
+  // A point at arc position u on a curved surface projects to sin(angle) across the quad,
+  // which squeezes the texture towards the sidewalls
+  const projectColumn = (u: number) =>
+    halfArc > 0 ? 0.5 + (0.5 * Math.sin((u - 0.5) * curvature)) / Math.sin(halfArc) : u
+
+  const vertices: { source: Point2D; destination: Point2D }[][] = []
+  for (let row = 0; row <= rows; row++) {
+    const v = row / rows
+    const rowVertices = []
+    for (let column = 0; column <= columns; column++) {
+      const u = column / columns
+      rowVertices.push({
+        source: { x: u * texture.width, y: v * texture.height },
+        destination: mapToQuad(projectColumn(u), v),
+      })
+    }
+    vertices.push(rowVertices)
+  }
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const topLeft = vertices[row][column]
+      const topRight = vertices[row][column + 1]
+      const bottomLeft = vertices[row + 1][column]
+      const bottomRight = vertices[row + 1][column + 1]
+
+      drawTexturedTriangle(
+        layerCtx,
+        texture,
+        [topLeft.source, topRight.source, bottomRight.source],
+        [topLeft.destination, topRight.destination, bottomRight.destination],
+      )
+      drawTexturedTriangle(
+        layerCtx,
+        texture,
+        [topLeft.source, bottomRight.source, bottomLeft.source],
+        [topLeft.destination, bottomRight.destination, bottomLeft.destination],
+      )
+    }
+  }
+
+  ctx.drawImage(layer, left, top)
+}
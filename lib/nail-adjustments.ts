@@ -0,0 +1,119 @@
+import type { HandSide } from "@/lib/handedness"
+import type { Finger } from "@/lib/manicure"
+import type { NailGeometry, Point2D } from "@/lib/nail-geometry"
+
+// A manual correction to a nail placed from the hand landmarks, for when detection
+// misplaces it. Kept relative to the detected nail so it applies to any design.
+export type NailAdjustment = {
+  offsetX: number // Pixels to move the nail center by
+  offsetY: number
+  rotation: number // Radians to turn the nail by, around its center
+  scale: number // Size relative to the detected nail
+}
+
+export type NailAdjustments = Partial<Record<Finger, NailAdjustment>>
+
+// Left and right hands are adjusted separately, like their manicures
+export type HandNailAdjustments = Partial<Record<HandSide, NailAdjustments>>
+
+// Where a nail sits on the photo, in image pixels
+export type NailPose = {
+  centerX: number
+  centerY: number
+  width: number
+  height: number
+  angle: number // Radians, pointing from the cuticle to the free edge
+}
+
+export const IDENTITY_ADJUSTMENT: NailAdjustment = { offsetX: 0, offsetY: 0, rotation: 0, scale: 1 }
+
+export const MIN_NAIL_SCALE = 0.4
+export const MAX_NAIL_SCALE = 2.5
+
+export function isIdentityAdjustment({ offsetX, offsetY, rotation, scale }: NailAdjustment): boolean {
+  return offsetX === 0 && offsetY === 0 && rotation === 0 && scale === 1
+}
+
+/**
+ * Returns the adjustments with one nail's replaced. Identity adjustments are dropped so
+ * that a nail moved back into place counts as unadjusted.
+ */
+export function setNailAdjustment(
+  adjustments: HandNailAdjustments,
+  side: HandSide,
+  finger: Finger,
+  adjustment: NailAdjustment | null,
+): HandNailAdjustments {
+  const { [finger]: _previous, ...rest } = adjustments[side] ?? {}
+  const hand = adjustment && !isIdentityAdjustment(adjustment) ? { ...rest, [finger]: adjustment } : rest
+  return { ...adjustments, [side]: hand }
+}
+
+/**
+ * Returns the adjustments for the same photo drawn `factor` times as large, e.g. for thumbnails.
+ */
+export function scaleNailAdjustments(adjustments: HandNailAdjustments, factor: number): HandNailAdjustments {
+  const scaleHand = (hand: NailAdjustments = {}): NailAdjustments =>
+    Object.fromEntries(
+      Object.entries(hand).map(([finger, adjustment]) => [
+        finger,
+        { ...adjustment, offsetX: adjustment.offsetX * factor, offsetY: adjustment.offsetY * factor },
+      ]),
+    )
+  return { left: scaleHand(adjustments.left), right: scaleHand(adjustments.right) }
+}
+
+/**
+ * Moves, turns and scales a nail estimated from the landmarks. The quad is transformed
+ * around the nail center, so its proportions and the nail's curvature are kept.
+ */
+export function adjustNailGeometry(geometry: NailGeometry, adjustment: NailAdjustment): NailGeometry {
+  const { offsetX, offsetY, rotation, scale } = adjustment
+  const cos = Math.cos(rotation) * scale
+  const sin = Math.sin(rotation) * scale
+  const center = { x: geometry.center.x + offsetX, y: geometry.center.y + offsetY }
+  const transform = ({ x, y }: Point2D): Point2D => {
+    const dx = x - geometry.center.x
+    const dy = y - geometry.center.y
+    return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos }
+  }
+  const { quad } = geometry
+
+  return {
+    ...geometry,
+    quad: {
+      cuticleLeft: transform(quad.cuticleLeft),
+      cuticleRight: transform(quad.cuticleRight),
+      tipRight: transform(quad.tipRight),
+      tipLeft: transform(quad.tipLeft),
+    },
+    center,
+    width: geometry.width * scale,
+    length: geometry.length * scale,
+    angle: geometry.angle + rotation,
+  }
+}
+
+export function adjustNailPose(pose: NailPose, { offsetX, offsetY, rotation, scale }: NailAdjustment): NailPose {
+  return {
+    centerX: pose.centerX + offsetX,
+    centerY: pose.centerY + offsetY,
+    width: pose.width * scale,
+    height: pose.height * scale,
+    angle: pose.angle + rotation,
+  }
+}
+
+/**
+ * Returns the pose a nail was detected in, before `adjustment` was applied to it.
+ */
+export function getDetectedNailPose(pose: NailPose, adjustment: NailAdjustment = IDENTITY_ADJUSTMENT): NailPose {
+  const { offsetX, offsetY, rotation, scale } = adjustment
+  return {
+    centerX: pose.centerX - offsetX,
+    centerY: pose.centerY - offsetY,
+    width: pose.width / scale,
+    height: pose.height / scale,
+    angle: pose.angle - rotation,
+  }
+}
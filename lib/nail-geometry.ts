@@ -0,0 +1,190 @@
+import type { NormalizedLandmark } from "@mediapipe/hands"
+import { FINGERS, type Finger } from "@/lib/manicure"
+
+export type Point2D = { x: number; y: number }
+
+type Point3D = Point2D & { z: number }
+
+// Nail plate corners in image pixels. The free edge is at the tip side.
+export type NailQuad = {
+  cuticleLeft: Point2D
+  cuticleRight: Point2D
+  tipRight: Point2D
+  tipLeft: Point2D
+}
+
+export type NailGeometry = {
+  finger: Finger
+  quad: NailQuad
+  center: Point2D
+  width: number // Projected width across the free edge, in pixels
+  length: number // Projected length from cuticle to free edge, in pixels
+  angle: number // Image-space direction from cuticle to free edge, in radians
+  curvature: number // Arc angle of the nail cross-section, in radians
+  foreshortening: number // Projected length over true length, 1 when the nail lies flat to the camera
+}
+
+// Hand landmark indices, ordered from the fingertip towards the wrist
+export const FINGER_JOINTS: Record<Finger, { tip: number; dip: number; pip: number; mcp: number }> = {
+  thumb: { tip: 4, dip: 3, pip: 2, mcp: 1 },
+  index: { tip: 8, dip: 7, pip: 6, mcp: 5 },
+  middle: { tip: 12, dip: 11, pip: 10, mcp: 9 },
+  ring: { tip: 16, dip: 15, pip: 14, mcp: 13 },
+  pinky: { tip: 20, dip: 19, pip: 18, mcp: 17 },
+}
+
+// Knuckle pairs whose spacing approximates each finger's width
+const KNUCKLE_NEIGHBOURS: Record<Finger, [number, number][]> = {
+  thumb: [[5, 9]],
+  index: [[5, 9]],
+  middle: [
+    [5, 9],
+    [9, 13],
+  ],
+  ring: [
+    [9, 13],
+    [13, 17],
+  ],
+  pinky: [[13, 17]],
+}
+
+// Proportions relative to the knuckle spacing and distal phalanx, from typical hand anatomy
+const NAIL_PROPORTIONS: Record<Finger, { width: number; length: number; curvature: number }> = {
+  thumb: { width: 0.95, length: 0.6, curvature: 1.5 },
+  index: { width: 0.72, length: 0.55, curvature: 1.7 },
+  middle: { width: 0.74, length: 0.55, curvature: 1.7 },
+  ring: { width: 0.7, length: 0.55, curvature: 1.7 },
+  pinky: { width: 0.62, length: 0.5, curvature: 1.8 },
+}
+
+// Below this ratio the finger points almost straight at the camera and its own
+// direction is too noisy to orient the nail
+const MIN_RELIABLE_FORESHORTENING = 0.25
+// How quickly nail width shrinks with distance, in normalized depth units
+const PERSPECTIVE_STRENGTH = 1.5
+const CUTICLE_TAPER = 0.9
+const FREE_EDGE_INSET = 0.08
+
+function toPixels(landmark: NormalizedLandmark, width: number, height: number): Point3D {
+  // MediaPipe's z uses roughly the same scale as x
+  return { x: landmark.x * width, y: landmark.y * height, z: landmark.z * width }
+}
+
+function distance2D(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+function distance3D(a: Point3D, b: Point3D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Estimates the visible nail plate of one finger from 3D hand landmarks.
+ * Returns null when the landmarks needed for that finger are missing.
+ */
+export function estimateNailGeometry(
+  landmarks: NormalizedLandmark[],
+  finger: Finger,
+  width: number,
+  height: number,
+): NailGeometry | null {
+  const joints = FINGER_JOINTS[finger]
+  const proportions = NAIL_PROPORTIONS[finger]
+  const [tipLandmark, dipLandmark, pipLandmark] = [joints.tip, joints.dip, joints.pip].map((i) => landmarks[i])
+  if (!tipLandmark || !dipLandmark || !pipLandmark) return null
+
+  const tip = toPixels(tipLandmark, width, height)
+  const dip = toPixels(dipLandmark, width, height)
+  const pip = toPixels(pipLandmark, width, height)
+
+  const distalLength3D = distance3D(tip, dip)
+  const distalLength2D = distance2D(tip, dip)
+  if (distalLength3D === 0) return null
+
+  const foreshortening = clamp(distalLength2D / distalLength3D, 0.05, 1)
+
+  // Fall back to the middle phalanx for orientation when the fingertip points at the camera
+  const directionFrom = foreshortening < MIN_RELIABLE_FORESHORTENING ? pip : dip
+  const directionLength = distance2D(tip, directionFrom)
+  if (directionLength === 0) return null
+  const along = { x: (tip.x - directionFrom.x) / directionLength, y: (tip.y - directionFrom.y) / directionLength }
+  const across = { x: -along.y, y: along.x }
+
+  // Knuckle spacing gives the finger width. The projected spacing already includes
+  // how far the hand is turned away, but never trust it below a third of the real width.
+  const knuckleSpacings = KNUCKLE_NEIGHBOURS[finger]
+    .map(([a, b]) => [landmarks[a], landmarks[b]])
+    .filter((pair): pair is [NormalizedLandmark, NormalizedLandmark] => !!pair[0] && !!pair[1])
+    .map(([a, b]) => {
+      const [pa, pb] = [toPixels(a, width, height), toPixels(b, width, height)]
+      return Math.max(distance2D(pa, pb), distance3D(pa, pb) / 3)
+    })
+  const knuckleSpacing =
+    knuckleSpacings.length > 0
+      ? knuckleSpacings.reduce((sum, spacing) => sum + spacing, 0) / knuckleSpacings.length
+      : distalLength3D * 0.8
+
+  const nailWidth = knuckleSpacing * proportions.width
+  const nailLength = distalLength3D * proportions.length * foreshortening
+
+  const freeEdge = {
+    x: tip.x - along.x * distalLength2D * FREE_EDGE_INSET,
+    y: tip.y - along.y * distalLength2D * FREE_EDGE_INSET,
+  }
+  const cuticle = { x: freeEdge.x - along.x * nailLength, y: freeEdge.y - along.y * nailLength }
+
+  // The end of the nail further from the camera looks narrower
+  const depthDelta = (tipLandmark.z - dipLandmark.z) * proportions.length
+  const perspective = clamp(1 - depthDelta * PERSPECTIVE_STRENGTH, 0.75, 1.25)
+  const freeEdgeHalfWidth = (nailWidth * perspective) / 2
+  const cuticleHalfWidth = (nailWidth * CUTICLE_TAPER) / 2
+
+  const quad: NailQuad = {
+    cuticleLeft: { x: cuticle.x - across.x * cuticleHalfWidth, y: cuticle.y - across.y * cuticleHalfWidth },
+    cuticleRight: { x: cuticle.x + across.x * cuticleHalfWidth, y: cuticle.y + across.y * cuticleHalfWidth },
+    tipRight: { x: freeEdge.x + across.x * freeEdgeHalfWidth, y: freeEdge.y + across.y * freeEdgeHalfWidth },
+    tipLeft: { x: freeEdge.x - across.x * freeEdgeHalfWidth, y: freeEdge.y - across.y * freeEdgeHalfWidth },
+  }
+
+  return {
+    finger,
+    quad,
+    center: { x: (freeEdge.x + cuticle.x) / 2, y: (freeEdge.y + cuticle.y) / 2 },
+    width: nailWidth * perspective,
+    length: nailLength,
+    angle: Math.atan2(along.y, along.x),
+    // A nail seen end-on shows less of its curve
+    curvature: proportions.curvature * (0.6 + 0.4 * foreshortening),
+    foreshortening,
+  }
+}
+
+/**
+ * Moves the free edge of a nail quad outwards along each sidewall by `extension` times the
+ * nail's length, for nails extended past the fingertip.
+ */
+export function extendNailQuad(quad: NailQuad, extension: number): NailQuad {
+  const extend = (tip: Point2D, cuticle: Point2D) => ({
+    x: tip.x + (tip.x - cuticle.x) * extension,
+    y: tip.y + (tip.y - cuticle.y) * extension,
+  })
+  return {
+    ...quad,
+    tipLeft: extend(quad.tipLeft, quad.cuticleLeft),
+    tipRight: extend(quad.tipRight, quad.cuticleRight),
+  }
+}
+
+export function estimateHandNailGeometry(
+  landmarks: NormalizedLandmark[],
+  width: number,
+  height: number,
+): NailGeometry[] {
+  return FINGERS.map((finger) => estimateNailGeometry(landmarks, finger, width, height)).filter(
+    (geometry): geometry is NailGeometry => geometry !== null,
+  )
+}
@@ -0,0 +1,201 @@
+import { applyColorGains, createNailColorMatcher, type SceneLighting } from "@/lib/color-matching"
+import { applyFinish, getNailLight, type FinishStyle } from "@/lib/designs/finish"
+import type { NailShapeOptions } from "@/lib/designs/schema"
+import { getExtensionRatio, NATURAL_NAIL } from "@/lib/designs/shape"
+import type { DetectedHand, HandSide } from "@/lib/handedness"
+import { DEFAULT_LIGHT_DIRECTION, type LightDirection } from "@/lib/light-direction"
+import type { Finger } from "@/lib/manicure"
+import { drawTextureToQuad } from "@/lib/mesh-warp"
+import { adjustNailGeometry, type NailAdjustment, type NailAdjustments } from "@/lib/nail-adjustments"
+import {
+  estimateHandNailGeometry,
+  extendNailQuad,
+  type NailGeometry,
+  type NailQuad,
+  type Point2D,
+} from "@/lib/nail-geometry"
+import { createMaskCanvas, segmentNail, type NailMask } from "@/lib/nail-segmentation"
+import { createCanvas, getContext2D, type TryOnContext, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// Where a design was drawn, in canvas pixels
+export type NailPlacement = {
+  side: HandSide
+  finger: Finger
+  centerX: number
+  centerY: number
+  width: number
+  height: number
+  angle: number // Radians, pointing from the cuticle to the free edge
+  quad: NailQuad
+  adjustment?: NailAdjustment // The manual adjustment already applied to the fields above
+  mask?: NailMask
+}
+
+// What to draw on one nail
+export type NailDesignLayer = {
+  texture: TryOnImageSource
+  finish?: FinishStyle // Shades the texture for the nail's orientation; drawn unshaded without it
+  nailShape?: NailShapeOptions // The shape the texture was rendered for. Defaults to a natural nail.
+}
+
+export type NailOverlayOptions = {
+  // Pixels of the photo being decorated. When given, polish is clipped to a segmented
+  // nail mask; without it the whole warped design is drawn.
+  source?: ImageData
+  light?: LightDirection // Where the light comes from, in image space
+  // Matches the polish to the photo's white balance and each fingertip's brightness. Needs `source`.
+  lighting?: SceneLighting
+  adjustments?: NailAdjustments // Manual corrections to the landmark-derived nails, per finger
+}
+
+// How far into the nail plate the extension's mask reaches, so it joins the segmented plate
+const EXTENSION_MASK_OVERLAP = 0.15
+
+// Warps the design into its own layer and keeps only the part inside the nail mask.
+// Extensions reach past the real nail, so the area past the free edge is kept as well.
+function drawMaskedDesign(
+  ctx: TryOnContext,
+  designImg: TryOnImageSource,
+  geometry: NailGeometry,
+  designQuad: NailQuad,
+  mask: NailMask,
+) {
+  const { quad } = geometry
+  const isExtended = designQuad !== quad
+  const corners = [
+    { x: mask.x, y: mask.y },
+    { x: mask.x + mask.width, y: mask.y + mask.height },
+    ...(isExtended ? [designQuad.tipLeft, designQuad.tipRight] : []),
+  ]
+  const left = Math.floor(Math.min(...corners.map((point) => point.x)))
+  const top = Math.floor(Math.min(...corners.map((point) => point.y)))
+  const right = Math.ceil(Math.max(...corners.map((point) => point.x)))
+  const bottom = Math.ceil(Math.max(...corners.map((point) => point.y)))
+
+  const layer = createCanvas(right - left, bottom - top)
+  const layerCtx = getContext2D(layer)
+  layerCtx.translate(-left, -top)
+  drawTextureToQuad(layerCtx, designImg, designQuad, { curvature: geometry.curvature })
+
+  const maskCanvas = createCanvas(right - left, bottom - top)
+  const maskCtx = getContext2D(maskCanvas)
+  maskCtx.drawImage(createMaskCanvas(mask), mask.x - left, mask.y - top)
+  if (isExtended) {
+    const inset = (tip: Point2D, cuticle: Point2D) => ({
+      x: tip.x + (cuticle.x - tip.x) * EXTENSION_MASK_OVERLAP - left,
+      y: tip.y + (cuticle.y - tip.y) * EXTENSION_MASK_OVERLAP - top,
+    })
+    const start = inset(quad.tipLeft, quad.cuticleLeft)
+    const end = inset(quad.tipRight, quad.cuticleRight)
+    maskCtx.beginPath()
+    maskCtx.moveTo(start.x, start.y)
+    maskCtx.lineTo(designQuad.tipLeft.x - left, designQuad.tipLeft.y - top)
+    maskCtx.lineTo(designQuad.tipRight.x - left, designQuad.tipRight.y - top)
+    maskCtx.lineTo(end.x, end.y)
+    maskCtx.closePath()
+    maskCtx.fillStyle = "#FFFFFF"
+    maskCtx.fill()
+  }
+
+  layerCtx.setTransform(1, 0, 0, 1, 0, 0)
+  layerCtx.globalCompositeOperation = "destination-in"
+  layerCtx.drawImage(maskCanvas, 0, 0)
+
+  ctx.drawImage(layer, left, top)
+}
+
+/**
+ * Draws one nail design per finger of a detected hand onto `ctx`, warped onto the
+ * nail plate estimated from the hand landmarks, and past it for extended nails.
+ * Nails the user corrected by hand are moved by their `adjustments` first.
+ * `getDesign` receives each finger and returns what to draw on it.
+ * Returns the placement of every nail that was decorated.
+ */
+export function drawNailOverlays(
+  ctx: TryOnContext,
+  hand: DetectedHand,
+  width: number,
+  height: number,
+  getDesign: (finger: Finger) => NailDesignLayer | null,
+  { source, light = DEFAULT_LIGHT_DIRECTION, lighting, adjustments = {} }: NailOverlayOptions = {},
+): NailPlacement[] {
+  const placements: NailPlacement[] = []
+  const geometries = estimateHandNailGeometry(hand.landmarks, width, height).map((geometry) => {
+    const adjustment = adjustments[geometry.finger]
+    return adjustment ? adjustNailGeometry(geometry, adjustment) : geometry
+  })
+
+  // Fingertips are compared over about a nail's width
+  const sampleRadius = geometries.reduce((sum, geometry) => sum + geometry.width, 0) / (geometries.length || 1)
+  const getColorGains =
+    source && lighting && sampleRadius > 0
+      ? createNailColorMatcher(source, lighting, hand.landmarks, sampleRadius)
+      : undefined
+
+  for (const geometry of geometries) {
+    const design = getDesign(geometry.finger)
+    if (!design) continue
+
+    const { texture, finish, nailShape = NATURAL_NAIL } = design
+    // Each nail faces the light differently, so the finish is shaded per nail
+    const finishedImg = finish
+      ? applyFinish(texture, finish, getNailLight(geometry.quad, light), {
+          nailShape,
+          seed: `${finish.id}-${geometry.finger}`,
+        })
+      : texture
+    const designImg = getColorGains ? applyColorGains(finishedImg, getColorGains(geometry.center)) : finishedImg
+    const designQuad =
+      nailShape.length > 0 ? extendNailQuad(geometry.quad, getExtensionRatio(nailShape.length)) : geometry.quad
+
+    let mask: NailMask | undefined
+    if (source) {
+      mask = segmentNail(source, geometry)
+      drawMaskedDesign(ctx, designImg, geometry, designQuad, mask)
+    } else {
+      drawTextureToQuad(ctx, designImg, designQuad, { curvature: geometry.curvature })
+    }
+
+    placements.push({
+      side: hand.side,
+      finger: geometry.finger,
+      centerX: geometry.center.x,
+      centerY: geometry.center.y,
+      width: geometry.width,
+      height: geometry.length,
+      angle: geometry.angle,
+      quad: geometry.quad,
+      adjustment: adjustments[geometry.finger],
+      mask,
+    })
+  }
+
+  return placements
+}
+
+/**
+ * Tints the segmented nail masks over the image so their coverage can be checked.
+ */
+export function drawMaskDebugOverlay(ctx: TryOnContext, placements: NailPlacement[]) {
+  placements.forEach(({ mask, quad }) => {
+    if (mask) {
+      ctx.save()
+      ctx.globalAlpha = 0.6
+      ctx.drawImage(createMaskCanvas(mask, [255, 0, 255]), mask.x, mask.y)
+      ctx.restore()
+    }
+
+    // Outline the estimated nail quad the mask was grown from
+    ctx.save()
+    ctx.beginPath()
+    ctx.moveTo(quad.tipLeft.x, quad.tipLeft.y)
+    ctx.lineTo(quad.tipRight.x, quad.tipRight.y)
+    ctx.lineTo(quad.cuticleRight.x, quad.cuticleRight.y)
+    ctx.lineTo(quad.cuticleLeft.x, quad.cuticleLeft.y)
+    ctx.closePath()
+    ctx.lineWidth = 1.5
+    ctx.strokeStyle = "rgba(0, 255, 255, 0.9)"
+    ctx.stroke()
+    ctx.restore()
+  })
+}
@@ -0,0 +1,296 @@
+import type { NailGeometry, NailQuad, Point2D } from "@/lib/nail-geometry"
+import { createCanvas, getContext2D, type TryOnCanvas } from "@/lib/try-on/canvas"
+
+// Alpha mask for one nail, covering a rectangle of the source image
+export type NailMask = {
+  x: number
+  y: number
+  width: number
+  height: number
+  alpha: Uint8ClampedArray // One value per pixel, 255 = nail
+}
+
+// The search area is the nail quad grown by this factor around its center
+const SEARCH_SCALE = 1.4
+// Seeds for region growing come from the middle of the nail only
+const SEED_SCALE = 0.5
+// Luminance gradient (Sobel) strong enough to stop region growing
+const EDGE_THRESHOLD = 90
+// Grown regions outside this coverage of the quad are treated as failed segmentations
+const MIN_COVERAGE = 0.35
+const MAX_COVERAGE = 1.6
+// Feather radius as a fraction of the nail width
+const FEATHER = 0.06
+
+function scaleQuad(quad: NailQuad, center: Point2D, factor: number): NailQuad {
+  const scale = (point: Point2D) => ({
+    x: center.x + (point.x - center.x) * factor,
+    y: center.y + (point.y - center.y) * factor,
+  })
+  return {
+    cuticleLeft: scale(quad.cuticleLeft),
+    cuticleRight: scale(quad.cuticleRight),
+    tipRight: scale(quad.tipRight),
+    tipLeft: scale(quad.tipLeft),
+  }
+}
+
+// Works for either winding order since nail quads are convex
+export function isPointInQuad(x: number, y: number, quad: NailQuad): boolean {
+  const corners = [quad.tipLeft, quad.tipRight, quad.cuticleRight, quad.cuticleLeft]
+  let sign = 0
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i]
+    const b = corners[(i + 1) % corners.length]
+    const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x)
+    if (cross !== 0) {
+      if (sign === 0) sign = Math.sign(cross)
+      else if (Math.sign(cross) !== sign) return false
+    }
+  }
+  return true
+}
+
+function toYCbCr(r: number, g: number, b: number): [number, number, number] {
+  return [0.299 * r + 0.587 * g + 0.114 * b, -0.169 * r - 0.331 * g + 0.5 * b, 0.5 * r - 0.419 * g - 0.081 * b]
+}
+
+// Mean YCbCr color of the source pixels within `radius` of a point, or null if none are in the image
+function sampleDiscColor(source: ImageData, centerX: number, centerY: number, radius: number): number[] | null {
+  let count = 0
+  const sum = [0, 0, 0]
+  const r = Math.ceil(radius)
+  for (let y = Math.round(centerY) - r; y <= Math.round(centerY) + r; y++) {
+    for (let x = Math.round(centerX) - r; x <= Math.round(centerX) + r; x++) {
+      if (x < 0 || y < 0 || x >= source.width || y >= source.height) continue
+      if (Math.hypot(x - centerX, y - centerY) > radius) continue
+      const offset = (y * source.width + x) * 4
+      const color = toYCbCr(source.data[offset], source.data[offset + 1], source.data[offset + 2])
+      sum[0] += color[0]
+      sum[1] += color[1]
+      sum[2] += color[2]
+      count++
+    }
+  }
+  return count > 0 ? sum.map((value) => value / count) : null
+}
+
+// Separable box blur, run twice to approximate a Gaussian
+function featherAlpha(alpha: Float32Array, width: number, height: number, radius: number) {
+  const buffer = new Float32Array(alpha.length)
+  const windowSize = radius * 2 + 1
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(Math.max(x + k, 0), width - 1)
+          sum += alpha[y * width + sx]
+        }
+        buffer[y * width + x] = sum / windowSize
+      }
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          const sy = Math.min(Math.max(y + k, 0), height - 1)
+          sum += buffer[sy * width + x]
+        }
+        alpha[y * width + x] = sum / windowSize
+      }
+    }
+  }
+}
+
+// Closes pinholes left by specular highlights with a 3x3 dilate followed by an erode
+function closeMask(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const morph = (input: Uint8Array, dilate: boolean) => {
+    const output = new Uint8Array(input.length)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let value = dilate ? 0 : 1
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = Math.min(Math.max(x + dx, 0), width - 1)
+            const ny = Math.min(Math.max(y + dy, 0), height - 1)
+            const neighbour = input[ny * width + nx]
+            value = dilate ? Math.max(value, neighbour) : Math.min(value, neighbour)
+          }
+        }
+        output[y * width + x] = value
+      }
+    }
+    return output
+  }
+  return morph(morph(mask, true), false)
+}
+
+/**
+ * Finds the nail plate around an estimated nail quad using local color and edge analysis.
+ *
+ * Pixels are compared against the color in the middle of the nail and the skin just
+ * below the cuticle. The nail region is grown from its center until it reaches skin
+ * colored pixels or a strong edge, then feathered. If the grown region is implausibly
+ * small or large (polish close to skin tone, busy backgrounds), the quad itself is used.
+ */
+export function segmentNail(source: ImageData, geometry: NailGeometry): NailMask {
+  const { quad, center } = geometry
+  const searchQuad = scaleQuad(quad, center, SEARCH_SCALE)
+  const seedQuad = scaleQuad(quad, center, SEED_SCALE)
+
+  const corners = [searchQuad.tipLeft, searchQuad.tipRight, searchQuad.cuticleRight, searchQuad.cuticleLeft]
+  const left = Math.max(Math.floor(Math.min(...corners.map((p) => p.x))), 0)
+  const top = Math.max(Math.floor(Math.min(...corners.map((p) => p.y))), 0)
+  const right = Math.min(Math.ceil(Math.max(...corners.map((p) => p.x))), source.width - 1)
+  const bottom = Math.min(Math.ceil(Math.max(...corners.map((p) => p.y))), source.height - 1)
+  const width = Math.max(right - left + 1, 1)
+  const height = Math.max(bottom - top + 1, 1)
+  const pixelCount = width * height
+
+  // Convert the search area to YCbCr so lighting changes mostly affect one channel
+  const luma = new Float32Array(pixelCount)
+  const cb = new Float32Array(pixelCount)
+  const cr = new Float32Array(pixelCount)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(left + x, source.width - 1)
+      const sourceY = Math.min(top + y, source.height - 1)
+      const offset = (sourceY * source.width + sourceX) * 4
+      const color = toYCbCr(source.data[offset], source.data[offset + 1], source.data[offset + 2])
+      const i = y * width + x
+      luma[i] = color[0]
+      cb[i] = color[1]
+      cr[i] = color[2]
+    }
+  }
+
+  const insideQuad = new Uint8Array(pixelCount)
+  const insideSearch = new Uint8Array(pixelCount)
+  const insideSeed = new Uint8Array(pixelCount)
+  let quadArea = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const px = left + x + 0.5
+      const py = top + y + 0.5
+      insideQuad[i] = isPointInQuad(px, py, quad) ? 1 : 0
+      insideSearch[i] = isPointInQuad(px, py, searchQuad) ? 1 : 0
+      insideSeed[i] = isPointInQuad(px, py, seedQuad) ? 1 : 0
+      quadArea += insideQuad[i]
+    }
+  }
+
+  const meanColor = (include: Uint8Array) => {
+    let count = 0
+    const sum = [0, 0, 0]
+    for (let i = 0; i < pixelCount; i++) {
+      if (include[i] === 0) continue
+      sum[0] += luma[i]
+      sum[1] += cb[i]
+      sum[2] += cr[i]
+      count++
+    }
+    return count > 0 ? sum.map((value) => value / count) : null
+  }
+
+  // Skin is sampled just below the cuticle, along the finger
+  const nailColor = meanColor(insideSeed)
+  const skinColor = sampleDiscColor(
+    source,
+    center.x - Math.cos(geometry.angle) * geometry.length * 0.8,
+    center.y - Math.sin(geometry.angle) * geometry.length * 0.8,
+    Math.max(geometry.width * 0.2, 2),
+  )
+
+  let grown: Uint8Array | null = null
+  if (nailColor && skinColor) {
+    const distance = (i: number, color: number[]) =>
+      Math.sqrt(0.5 * (luma[i] - color[0]) ** 2 + (cb[i] - color[1]) ** 2 + (cr[i] - color[2]) ** 2)
+
+    const edge = new Float32Array(pixelCount)
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const at = (dx: number, dy: number) => luma[(y + dy) * width + (x + dx)]
+        const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1)
+        const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1)
+        edge[y * width + x] = Math.hypot(gx, gy)
+      }
+    }
+
+    const isNailLike = (i: number) => {
+      const toNail = distance(i, nailColor)
+      const toSkin = distance(i, skinColor)
+      return toNail <= toSkin * 1.1
+    }
+
+    grown = new Uint8Array(pixelCount)
+    const queue: number[] = []
+    for (let i = 0; i < pixelCount; i++) {
+      if (insideSeed[i] === 1 && isNailLike(i)) {
+        grown[i] = 1
+        queue.push(i)
+      }
+    }
+
+    let grownArea = queue.length
+    for (let head = 0; head < queue.length; head++) {
+      const i = queue[head]
+      // Edge pixels join the region but do not spread it any further
+      if (edge[i] > EDGE_THRESHOLD) continue
+      const x = i % width
+      const y = (i - x) / width
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ]
+      for (const n of neighbours) {
+        if (n < 0 || grown[n] === 1 || insideSearch[n] === 0 || !isNailLike(n)) continue
+        grown[n] = 1
+        grownArea++
+        queue.push(n)
+      }
+    }
+
+    const coverage = quadArea > 0 ? grownArea / quadArea : 0
+    if (coverage < MIN_COVERAGE || coverage > MAX_COVERAGE) {
+      grown = null
+    }
+  }
+
+  const binary = closeMask(grown ?? insideQuad, width, height)
+  const alpha = new Float32Array(pixelCount)
+  for (let i = 0; i < pixelCount; i++) alpha[i] = binary[i]
+
+  featherAlpha(alpha, width, height, Math.max(1, Math.round(geometry.width * FEATHER)))
+
+  const output = new Uint8ClampedArray(pixelCount)
+  for (let i = 0; i < pixelCount; i++) output[i] = alpha[i] * 255
+
+  return { x: left, y: top, width, height, alpha: output }
+}
+
+/**
+ * Paints a mask into a canvas as white pixels with the mask's alpha, so it can be used
+ * with `destination-in` compositing. Pass `color` to tint it for debugging instead.
+ */
+export function createMaskCanvas(
+  mask: NailMask,
+  color: [number, number, number] = [255, 255, 255],
+): TryOnCanvas {
+  const canvas = createCanvas(mask.width, mask.height)
+  const ctx = getContext2D(canvas)
+
+  const imageData = ctx.createImageData(mask.width, mask.height)
+  for (let i = 0; i < mask.alpha.length; i++) {
+    imageData.data[i * 4] = color[0]
+    imageData.data[i * 4 + 1] = color[1]
+    imageData.data[i * 4 + 2] = color[2]
+    imageData.data[i * 4 + 3] = mask.alpha[i]
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return canvas
+}
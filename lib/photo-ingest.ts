@@ -0,0 +1,160 @@
+import { canvasToBlob, canvasToDataUrl, createCanvas, getContext2D, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// Turns an uploaded or captured file into photos the try-on can use: upright, at a working
+// size for detection and editing, and at full size for export. Pages ingest photos through
+// the try-on worker, so decoding and re-encoding large photos never blocks the page.
+
+export type IngestedPhoto = {
+  dataUrl: string // Upright JPEG, scaled down to the working resolution
+  width: number
+  height: number
+  original: Blob // Upright at full resolution, or as large as a canvas allows, for export
+  originalWidth: number
+  originalHeight: number
+}
+
+// Longest side photos are detected, edited and shown at
+export const WORKING_MAX_SIDE = 2048
+export const MAX_PHOTO_BYTES = 40 * 1024 * 1024
+// Canvases larger than this fail in some browsers, so bigger originals are scaled down to it
+const MAX_CANVAS_PIXELS = 16_000_000
+
+const BROWSER_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/bmp"]
+const HEIC_TYPES = ["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"]
+const HEIC_EXTENSION = /\.(heic|heif)$/i
+
+const WORKING_QUALITY = 0.92
+const ORIGINAL_QUALITY = 0.95
+
+const EXIF_ORIENTATION_TAG = 0x0112
+
+export function isHeicFile(file: Blob): boolean {
+  return HEIC_TYPES.includes(file.type) || (file instanceof File && HEIC_EXTENSION.test(file.name))
+}
+
+/**
+ * Says what is wrong with a file before it is decoded, or returns null if it looks like a photo.
+ */
+export function getPhotoFileError(file: Blob): string | null {
+  const name = file instanceof File && file.name ? `"${file.name}"` : "That file"
+  if (!BROWSER_IMAGE_TYPES.includes(file.type) && !isHeicFile(file)) {
+    return `${name} isn't a photo. Please choose a JPEG, PNG, WebP or HEIC image.`
+  }
+  if (file.size === 0) {
+    return `${name} is empty. Please choose another photo.`
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    const [megabytes, limit] = [file.size, MAX_PHOTO_BYTES].map((bytes) => Math.round(bytes / (1024 * 1024)))
+    return `${name} is ${megabytes} MB, over the ${limit} MB limit. Please choose a smaller photo.`
+  }
+  return null
+}
+
+/**
+ * Finds the EXIF orientation in a JPEG. `offset` is where its value is stored, so it
+ * can be reset. Returns null for other formats and photos without one.
+ */
+function findExifOrientation(view: DataView): { orientation: number; offset: number; littleEndian: boolean } | null {
+  try {
+    if (view.getUint16(0) !== 0xffd8) return null
+    let offset = 2
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset)
+      // Image data follows the start of scan, so there is no metadata after it
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null
+      // APP1 segment starting with "Exif"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10
+        const littleEndian = view.getUint16(tiff) === 0x4949
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+        const entries = view.getUint16(ifd, littleEndian)
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12
+          if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+            return { orientation: view.getUint16(entry + 8, littleEndian), offset: entry + 8, littleEndian }
+          }
+        }
+        return null
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  } catch (err) {
+    // Truncated or malformed metadata reads past the end of the file
+    if (!(err instanceof RangeError)) throw err
+  }
+  return null
+}
+
+/**
+ * Decodes a photo without letting the browser apply its EXIF orientation. Browsers
+ * disagree on whether `createImageBitmap` honours it, so the tag is reset to "upright"
+ * and the orientation is applied by `drawUpright` instead.
+ */
+async function decodeUnrotated(file: Blob): Promise<{ image: ImageBitmap; orientation: number }> {
+  const buffer = await file.arrayBuffer()
+  const exif = findExifOrientation(new DataView(buffer))
+  if (!exif || exif.orientation === 1) {
+    return { image: await createImageBitmap(file), orientation: 1 }
+  }
+  const patched = buffer.slice(0)
+  new DataView(patched).setUint16(exif.offset, 1, exif.littleEndian)
+  const image = await createImageBitmap(new Blob([patched], { type: file.type }))
+  return { image, orientation: exif.orientation >= 1 && exif.orientation <= 8 ? exif.orientation : 1 }
+}
+
+// Orientations 5 to 8 turn the photo on its side
+function isSideways(orientation: number): boolean {
+  return orientation >= 5
+}
+
+function drawUpright(image: TryOnImageSource, orientation: number, scale: number) {
+  const width = Math.max(1, Math.round(image.width * scale))
+  const height = Math.max(1, Math.round(image.height * scale))
+  const canvas = isSideways(orientation) ? createCanvas(height, width) : createCanvas(width, height)
+  const ctx = getContext2D(canvas)
+  // Transforms for each EXIF orientation, as listed in the EXIF specification
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    1: [1, 0, 0, 1, 0, 0],
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  }
+  ctx.setTransform(...(transforms[orientation] ?? transforms[1]))
+  ctx.drawImage(image, 0, 0, width, height)
+  return canvas
+}
+
+/**
+ * Decodes a photo, turns it upright and makes a working copy at most `WORKING_MAX_SIDE`
+ * pixels on its longest side. Check the file with `getPhotoFileError` first; this throws
+ * if the browser can't decode it, which for HEIC is every browser but Safari.
+ */
+export async function ingestPhoto(file: Blob): Promise<IngestedPhoto> {
+  const { image, orientation } = await decodeUnrotated(file)
+  try {
+    const longestSide = Math.max(image.width, image.height)
+    const working = drawUpright(image, orientation, Math.min(1, WORKING_MAX_SIDE / longestSide))
+    const dataUrl = await canvasToDataUrl(working, "image/jpeg", WORKING_QUALITY)
+
+    // Upright photos in a format every browser reads are kept exactly as they were
+    const originalScale = Math.min(1, Math.sqrt(MAX_CANVAS_PIXELS / (image.width * image.height)))
+    const isKept = orientation === 1 && originalScale === 1 && BROWSER_IMAGE_TYPES.includes(file.type)
+    const upright = isKept ? null : drawUpright(image, orientation, originalScale)
+    const original = upright ? await canvasToBlob(upright, "image/jpeg", ORIGINAL_QUALITY) : file
+
+    return {
+      dataUrl,
+      width: working.width,
+      height: working.height,
+      original,
+      originalWidth: upright?.width ?? image.width,
+      originalHeight: upright?.height ?? image.height,
+    }
+  } finally {
+    image.close()
+  }
+}
@@ -0,0 +1,240 @@
+import type { NormalizedLandmark } from "@mediapipe/hands"
+import type { DetectedHand } from "@/lib/handedness"
+import { FINGERS, type Finger } from "@/lib/manicure"
+import { FINGER_JOINTS } from "@/lib/nail-geometry"
+import { createCanvas, getContext2D, getImageSize, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// Checks that a photo can give a good try-on, with advice the user can act on. Image
+// checks run before hand detection; hand checks use the landmarks it finds.
+
+export type PhotoIssueCode =
+  | "blurry"
+  | "too-dark"
+  | "too-bright"
+  | "no-hand"
+  | "low-confidence"
+  | "hand-too-small"
+  | "fingertips-cropped"
+  | "fingers-curled"
+  | "fingers-together"
+
+export type PhotoIssue = {
+  code: PhotoIssueCode
+  message: string // What to change about the photo
+  hint: string // A few words for the live camera view
+}
+
+export type ImageQuality = {
+  sharpness: number // Laplacian variance of the sharpest region, in 8-bit luminance units
+  brightness: number // Mean luminance between 0 and 1
+  shadowClipping: number // Fraction of pixels that are almost black
+  highlightClipping: number // Fraction of pixels that are almost white
+}
+
+const ISSUES: Record<PhotoIssueCode, Omit<PhotoIssue, "code">> = {
+  blurry: {
+    message: "The photo is blurry. Hold the camera steady and tap your nails to focus before taking it.",
+    hint: "Hold still",
+  },
+  "too-dark": {
+    message: "The photo is too dark. Move somewhere brighter or face a window.",
+    hint: "Find more light",
+  },
+  "too-bright": {
+    message: "The photo is overexposed. Move out of direct sunlight or away from the flash.",
+    hint: "Too bright, avoid direct light",
+  },
+  "no-hand": {
+    message: "No hand was found. Show the back of your hand with all five nails facing the camera.",
+    hint: "Show the back of your hand",
+  },
+  "low-confidence": {
+    message: "Your hand is hard to make out. Use a plain background and keep the whole hand in view.",
+    hint: "Use a plain background",
+  },
+  "hand-too-small": {
+    message: "Your hand is small in the photo. Move the camera closer so your hand fills most of the frame.",
+    hint: "Move closer",
+  },
+  "fingertips-cropped": {
+    message: "Some fingertips are cut off. Keep all five fingertips inside the frame.",
+    hint: "Keep your fingertips in frame",
+  },
+  "fingers-curled": {
+    message: "Some fingers are curled. Lay your hand flat with the fingers straight so each nail faces the camera.",
+    hint: "Straighten your fingers",
+  },
+  "fingers-together": {
+    message: "Your fingers are pressed together. Spread them a little so each nail stands apart.",
+    hint: "Spread your fingers",
+  },
+}
+
+// Photos are measured at this size, so thresholds don't depend on the camera's resolution
+const SAMPLE_SIZE = 512
+// Blur is measured per tile and the sharpest tile counts, so a blurred background behind
+// a sharp hand passes
+const SHARPNESS_TILES = 8
+const MIN_SHARPNESS = 60
+const MIN_BRIGHTNESS = 0.22
+const MAX_BRIGHTNESS = 0.85
+const MAX_SHADOW_CLIPPING = 0.5
+const MAX_HIGHLIGHT_CLIPPING = 0.25
+const SHADOW_LEVEL = 16
+const HIGHLIGHT_LEVEL = 250
+
+// MediaPipe's handedness score; below this the landmarks are often misplaced
+const MIN_HAND_SCORE = 0.8
+// Longest side of the hand's bounding box, relative to the image's shortest side
+const MIN_HAND_SIZE = 0.3
+// Fingertips this close to the edge, relative to the image size, count as cut off
+const EDGE_MARGIN = 0.01
+// Straight-line length of a finger over the length along its joints; 1 when straight
+const MIN_FINGER_STRAIGHTNESS = 0.7
+// Average gap between neighbouring fingertips relative to the gap between their knuckles
+const MIN_FINGERTIP_SPREAD = 0.8
+
+export function createPhotoIssue(code: PhotoIssueCode): PhotoIssue {
+  return { code, ...ISSUES[code] }
+}
+
+function luminance(data: Uint8ClampedArray, i: number): number {
+  return 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+}
+
+/**
+ * Measures sharpness and exposure of a photo, from a copy scaled to a fixed size.
+ */
+export function measureImageQuality(image: TryOnImageSource): ImageQuality {
+  const { width, height } = getImageSize(image)
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(width, height))
+  const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)))
+  const ctx = getContext2D(canvas)
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+  const gray = new Float32Array(canvas.width * canvas.height)
+  let brightnessSum = 0
+  let shadows = 0
+  let highlights = 0
+  for (let p = 0; p < gray.length; p++) {
+    const value = luminance(data, p * 4)
+    gray[p] = value
+    brightnessSum += value
+    if (value <= SHADOW_LEVEL) shadows++
+    if (value >= HIGHLIGHT_LEVEL) highlights++
+  }
+
+  // Variance of the 4-neighbour Laplacian, per tile
+  const tileWidth = Math.max(3, Math.ceil(canvas.width / SHARPNESS_TILES))
+  const tileHeight = Math.max(3, Math.ceil(canvas.height / SHARPNESS_TILES))
+  const tileSums = new Float64Array(SHARPNESS_TILES * SHARPNESS_TILES)
+  const tileSquares = new Float64Array(tileSums.length)
+  const tileCounts = new Uint32Array(tileSums.length)
+  for (let y = 1; y < canvas.height - 1; y++) {
+    for (let x = 1; x < canvas.width - 1; x++) {
+      const p = y * canvas.width + x
+      const laplacian = gray[p - 1] + gray[p + 1] + gray[p - canvas.width] + gray[p + canvas.width] - 4 * gray[p]
+      const tile = Math.floor(y / tileHeight) * SHARPNESS_TILES + Math.floor(x / tileWidth)
+      tileSums[tile] += laplacian
+      tileSquares[tile] += laplacian * laplacian
+      tileCounts[tile]++
+    }
+  }
+  let sharpness = 0
+  tileCounts.forEach((count, tile) => {
+    if (count === 0) return
+    const mean = tileSums[tile] / count
+    sharpness = Math.max(sharpness, tileSquares[tile] / count - mean * mean)
+  })
+
+  return {
+    sharpness,
+    brightness: brightnessSum / gray.length / 255,
+    shadowClipping: shadows / gray.length,
+    highlightClipping: highlights / gray.length,
+  }
+}
+
+export function getImageIssues(quality: ImageQuality): PhotoIssue[] {
+  const issues: PhotoIssue[] = []
+  if (quality.brightness < MIN_BRIGHTNESS || quality.shadowClipping > MAX_SHADOW_CLIPPING) {
+    issues.push(createPhotoIssue("too-dark"))
+  } else if (quality.brightness > MAX_BRIGHTNESS || quality.highlightClipping > MAX_HIGHLIGHT_CLIPPING) {
+    issues.push(createPhotoIssue("too-bright"))
+  }
+  // Dark photos are noisy, which reads as detail, so blur is only judged when exposure is fine
+  if (issues.length === 0 && quality.sharpness < MIN_SHARPNESS) {
+    issues.push(createPhotoIssue("blurry"))
+  }
+  return issues
+}
+
+function distance(a: NormalizedLandmark, b: NormalizedLandmark, aspect: number): number {
+  // Normalized x and z are relative to the width and y to the height; measure in widths
+  return Math.hypot(a.x - b.x, (a.y - b.y) / aspect, a.z - b.z)
+}
+
+function isFingerCurled(landmarks: NormalizedLandmark[], finger: Finger, aspect: number): boolean {
+  const { tip, dip, pip, mcp } = FINGER_JOINTS[finger]
+  const joints = [mcp, pip, dip, tip].map((i) => landmarks[i])
+  if (joints.some((joint) => !joint)) return false
+  let jointLength = 0
+  for (let i = 1; i < joints.length; i++) {
+    jointLength += distance(joints[i - 1], joints[i], aspect)
+  }
+  return jointLength > 0 && distance(joints[0], joints[3], aspect) / jointLength < MIN_FINGER_STRAIGHTNESS
+}
+
+function getFingertipSpread(landmarks: NormalizedLandmark[], aspect: number): number | null {
+  const fingers = FINGERS.filter((finger) => finger !== "thumb")
+  let ratioSum = 0
+  let count = 0
+  for (let i = 1; i < fingers.length; i++) {
+    const [a, b] = [FINGER_JOINTS[fingers[i - 1]], FINGER_JOINTS[fingers[i]]]
+    const knuckleGap = distance(landmarks[a.mcp], landmarks[b.mcp], aspect)
+    if (!landmarks[a.tip] || !landmarks[b.tip] || !(knuckleGap > 0)) continue
+    ratioSum += distance(landmarks[a.tip], landmarks[b.tip], aspect) / knuckleGap
+    count++
+  }
+  return count > 0 ? ratioSum / count : null
+}
+
+/**
+ * Checks how the hands sit in the photo, most important issue first. `width` and
+ * `height` are the image size, which the normalized landmarks are relative to.
+ */
+export function getHandIssues(hands: DetectedHand[], width: number, height: number): PhotoIssue[] {
+  if (hands.length === 0) return [createPhotoIssue("no-hand")]
+
+  const aspect = height > 0 ? width / height : 1
+  const codes = new Set<PhotoIssueCode>()
+  hands.forEach(({ landmarks, score }) => {
+    if (landmarks.length === 0) return
+    const xs = landmarks.map((landmark) => landmark.x)
+    const ys = landmarks.map((landmark) => landmark.y)
+    const handSize = Math.max(
+      ((Math.max(...xs) - Math.min(...xs)) * width) / Math.min(width, height),
+      ((Math.max(...ys) - Math.min(...ys)) * height) / Math.min(width, height),
+    )
+
+    const isCropped = FINGERS.some((finger) => {
+      const tip = landmarks[FINGER_JOINTS[finger].tip]
+      return (
+        !!tip && (tip.x < EDGE_MARGIN || tip.x > 1 - EDGE_MARGIN || tip.y < EDGE_MARGIN || tip.y > 1 - EDGE_MARGIN)
+      )
+    })
+    if (isCropped) codes.add("fingertips-cropped")
+    if (handSize < MIN_HAND_SIZE) codes.add("hand-too-small")
+    if (score < MIN_HAND_SCORE) codes.add("low-confidence")
+    if (FINGERS.filter((finger) => isFingerCurled(landmarks, finger, aspect)).length >= 2) {
+      codes.add("fingers-curled")
+    } else {
+      const spread = getFingertipSpread(landmarks, aspect)
+      if (spread !== null && spread < MIN_FINGERTIP_SPREAD) codes.add("fingers-together")
+    }
+  })
+
+  const order = Object.keys(ISSUES) as PhotoIssueCode[]
+  return order.filter((code) => codes.has(code)).map(createPhotoIssue)
+}
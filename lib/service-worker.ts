@@ -0,0 +1,52 @@
+// Registers public/sw.js, which keeps the app and the hand model working offline after the
+// first visit. Skipped in development, where cached chunks would get in the way of hot reloading.
+
+// Installing caches the hand model, so a slow connection can take a while. After this the
+// page goes ahead without the service worker rather than waiting any longer.
+const CONTROL_TIMEOUT_MS = 60000
+
+let registration: Promise<void> | null = null
+
+function waitForController(worker: ServiceWorker): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      navigator.serviceWorker.removeEventListener("controllerchange", done)
+      resolve()
+    }
+    const timer = setTimeout(done, CONTROL_TIMEOUT_MS)
+    navigator.serviceWorker.addEventListener("controllerchange", done)
+    // A worker that fails to install never takes control
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "redundant") done()
+    })
+  })
+}
+
+/**
+ * Registers the service worker and resolves once it controls the page, so the downloads
+ * that follow, like the hand model's, go through its cache. Also resolves if service
+ * workers are unavailable or fail to install. Safe to call more than once.
+ */
+export function registerServiceWorker(): Promise<void> {
+  if (process.env.NODE_ENV !== "production" || typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return Promise.resolve()
+  }
+  if (!registration) {
+    registration = navigator.serviceWorker
+      .register("/sw.js")
+      .then(async (registered) => {
+        const pending = registered.installing ?? registered.waiting
+        if (pending && !navigator.serviceWorker.controller) {
+          // The first visit: installing caches everything, then the worker claims the page
+          await waitForController(pending)
+        }
+        // Cache this build's assets if they aren't yet, e.g. after a deploy
+        registered.active?.postMessage({ type: "precache" })
+      })
+      .catch((err) => {
+        console.error("Service worker registration failed:", err)
+      })
+  }
+  return registration
+}
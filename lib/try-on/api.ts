@@ -0,0 +1,35 @@
+import { z } from "zod"
+import { detectedHandSchema } from "@/lib/hand-detection/schema"
+import type { DetectedHand } from "@/lib/handedness"
+import { FINGERS, type Finger } from "@/lib/manicure"
+import type { TryOnPlacement } from "@/lib/try-on/protocol"
+
+// Request and response shapes of POST /api/try-on, shared with anything that calls it
+
+export const TRY_ON_MAX_IMAGE_BYTES = 15 * 1024 * 1024
+// Compressed files can be small and still decode to huge images, so decoded sizes are limited too
+export const TRY_ON_MAX_IMAGE_PIXELS = 40_000_000
+
+const manicureSchema = z.object(
+  Object.fromEntries(FINGERS.map((finger) => [finger, z.string().min(1)])) as Record<Finger, z.ZodString>,
+)
+
+export const handManicuresSchema = z.object({
+  left: manicureSchema,
+  right: manicureSchema,
+})
+
+export const tryOnHandsSchema = z.array(detectedHandSchema).max(2)
+
+export type TryOnApiResponse = {
+  image: string // PNG data URL
+  width: number
+  height: number
+  hands: DetectedHand[] // The hands sent with the request; the route doesn't detect any
+  nails: TryOnPlacement[]
+}
+
+export type TryOnApiError = {
+  error: string
+  issues?: string[]
+}
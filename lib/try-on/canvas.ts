@@ -0,0 +1,81 @@
+// The try-on pipeline only needs a 2D canvas, so it can run on a page (HTMLCanvasElement),
+// in a worker (OffscreenCanvas) or in Node with a canvas package such as node-canvas.
+export type TryOnCanvas = HTMLCanvasElement | OffscreenCanvas
+export type TryOnContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Anything the pipeline can draw, with its size in pixels
+export type TryOnImageSource = CanvasImageSource & { width: number; height: number }
+
+export type CanvasFactory = (width: number, height: number) => TryOnCanvas
+
+function createDefaultCanvas(width: number, height: number): TryOnCanvas {
+  if (typeof document !== "undefined") {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    return canvas
+  }
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height)
+  }
+  throw new Error("No canvas implementation available. Call setCanvasFactory first.")
+}
+
+let canvasFactory: CanvasFactory = createDefaultCanvas
+
+/**
+ * Replaces how the pipeline creates its scratch canvases and design textures.
+ * In Node, pass a factory from a canvas package, e.g.
+ * `setCanvasFactory((w, h) => createCanvas(w, h) as unknown as TryOnCanvas)`.
+ */
+export function setCanvasFactory(factory: CanvasFactory) {
+  canvasFactory = factory
+}
+
+export function createCanvas(width: number, height: number): TryOnCanvas {
+  return canvasFactory(width, height)
+}
+
+export function getContext2D(canvas: TryOnCanvas): TryOnContext {
+  const ctx = (canvas as HTMLCanvasElement).getContext("2d") as TryOnContext | null
+  if (!ctx) throw new Error("Could not get a 2D canvas context")
+  return ctx
+}
+
+/**
+ * Returns the intrinsic size of an image, which for `<img>` elements is not their `width`.
+ */
+export function getImageSize(image: TryOnImageSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== "undefined" && image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight }
+  }
+  if (typeof HTMLVideoElement !== "undefined" && image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight }
+  }
+  return { width: image.width, height: image.height }
+}
+
+export async function canvasToBlob(canvas: TryOnCanvas, type = "image/png", quality?: number): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type, quality })
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode canvas"))), type, quality)
+  })
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export async function canvasToDataUrl(canvas: TryOnCanvas, type = "image/png", quality?: number): Promise<string> {
+  if ("toDataURL" in canvas) {
+    return canvas.toDataURL(type, quality)
+  }
+  return blobToDataUrl(await canvasToBlob(canvas, type, quality))
+}
@@ -0,0 +1,33 @@
+import type { DetectedHand } from "@/lib/handedness"
+
+// Hands found in photos uploaded this session, keyed by a hash of the file, so trying
+// the same photo again skips detection. Landmarks don't depend on the design.
+
+const MAX_CACHED_PHOTOS = 20
+
+const cache = new Map<string, DetectedHand[]>()
+
+// Hashing needs a secure context; elsewhere photos simply aren't cached
+export async function getPhotoKey(photo: Blob): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null
+  const digest = await crypto.subtle.digest("SHA-256", await photo.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export function getCachedHands(key: string): DetectedHand[] | undefined {
+  const hands = cache.get(key)
+  if (hands) {
+    // Move to the end, so the least recently used photo is evicted first
+    cache.delete(key)
+    cache.set(key, hands)
+  }
+  return hands
+}
+
+export function cacheHands(key: string, hands: DetectedHand[]) {
+  cache.delete(key)
+  cache.set(key, hands)
+  while (cache.size > MAX_CACHED_PHOTOS) {
+    cache.delete(cache.keys().next().value!)
+  }
+}
@@ -0,0 +1,84 @@
+// Reads an image's size from its file header, without decoding it. Uploads are checked with
+// this before they are decoded, since a small compressed file can decode to a huge bitmap.
+
+export type ImageSize = {
+  width: number
+  height: number
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)))
+}
+
+// The IHDR chunk always comes first
+function readPngSize(view: DataView): ImageSize | null {
+  if (readAscii(view, 12, 4) !== "IHDR") return null
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
+
+// The size is in the first start-of-frame (SOFn) segment
+function readJpegSize(view: DataView): ImageSize | null {
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+    const marker = view.getUint8(offset + 1)
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // Markers without a segment
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+    // Image data follows the start of scan, so a frame header must come before it
+    if (marker === 0xda || marker === 0xd9) return null
+    // SOF0 to SOF15, apart from DHT, JPG and DAC, which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+// The first chunk is a lossy (VP8), lossless (VP8L) or extended (VP8X) header
+function readWebpSize(view: DataView): ImageSize | null {
+  switch (readAscii(view, 12, 4)) {
+    case "VP8 ":
+      if (view.getUint8(23) !== 0x9d || view.getUint8(24) !== 0x01 || view.getUint8(25) !== 0x2a) return null
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    case "VP8L": {
+      if (view.getUint8(20) !== 0x2f) return null
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 }
+    }
+    case "VP8X":
+      return {
+        width: (view.getUint8(24) | (view.getUint8(25) << 8) | (view.getUint8(26) << 16)) + 1,
+        height: (view.getUint8(27) | (view.getUint8(28) << 8) | (view.getUint8(29) << 16)) + 1,
+      }
+    default:
+      return null
+  }
+}
+
+/**
+ * Returns the size a PNG, JPEG or WebP file says it has, or null for other formats and
+ * headers too short or malformed to tell.
+ */
+export function readImageSize(data: Uint8Array): ImageSize | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  try {
+    if (PNG_SIGNATURE.every((byte, i) => view.getUint8(i) === byte)) return readPngSize(view)
+    if (view.getUint16(0) === 0xffd8) return readJpegSize(view)
+    if (readAscii(view, 0, 4) === "RIFF" && readAscii(view, 8, 4) === "WEBP") return readWebpSize(view)
+  } catch (err) {
+    // Truncated headers read past the end of the file
+    if (!(err instanceof RangeError)) throw err
+  }
+  return null
+}
@@ -0,0 +1,20 @@
+import { createCanvas, loadImage, type Canvas } from "@napi-rs/canvas"
+import { setCanvasFactory, type TryOnCanvas, type TryOnImageSource } from "@/lib/try-on/canvas"
+
+// @napi-rs/canvas implements the same 2D context API as the browser, but its classes
+// are separate types, so they are cast at this boundary only
+
+/**
+ * Makes the try-on pipeline draw with @napi-rs/canvas. Call once before rendering in Node.
+ */
+export function installNodeCanvas() {
+  setCanvasFactory((width, height) => createCanvas(width, height) as unknown as TryOnCanvas)
+}
+
+export async function decodeImage(data: Buffer): Promise<TryOnImageSource> {
+  return (await loadImage(data)) as unknown as TryOnImageSource
+}
+
+export function encodePng(canvas: TryOnCanvas): Buffer {
+  return (canvas as unknown as Canvas).toBuffer("image/png")
+}
@@ -0,0 +1,86 @@
+import type { Options as HandsOptions } from "@mediapipe/hands"
+import type { NailDesign, NailShapeOptions } from "@/lib/designs/schema"
+import type { ExportCard, ExportWatermark } from "@/lib/export-image"
+import type { HandDetectorMode } from "@/lib/hand-detection/types"
+import type { DetectedHand } from "@/lib/handedness"
+import type { HandManicures } from "@/lib/manicure"
+import type { HandNailAdjustments } from "@/lib/nail-adjustments"
+import type { LoadProgress } from "@/lib/mediapipe-loader"
+import type { NailPlacement } from "@/lib/nail-overlay"
+import type { IngestedPhoto } from "@/lib/photo-ingest"
+import type { PhotoIssue } from "@/lib/photo-quality"
+
+// Messages between the page and lib/try-on/worker.ts. Images travel as transferred
+// ImageBitmaps so large photos are never copied or encoded on the way.
+
+export type TryOnRenderRequest = {
+  image?: ImageBitmap // A new photo; omit to re-render the last one, e.g. after a manicure edit
+  hands?: DetectedHand[] // Hands already found in `image`; omit to detect them in the worker
+  isMirrored?: boolean // `image` is flipped like a selfie preview, which swaps the hands it is detected as
+  manicures: HandManicures
+  nailShape?: NailShapeOptions // Shape and length for every nail; omit to use each design's own
+  matchLighting?: boolean // Match the polish to the photo's lighting; defaults to true
+  adjustments?: HandNailAdjustments // Nails the user moved, turned or resized by hand
+  showMasks?: boolean
+}
+
+// Renders every design on the last photo, each on all nails, as small thumbnails
+export type TryOnGridRequest = {
+  designIds: string[]
+  size: number // Longest side of each thumbnail, in pixels
+  nailShape?: NailShapeOptions
+  matchLighting?: boolean
+  adjustments?: HandNailAdjustments
+}
+
+// Renders the last photo's manicure on a larger copy of it, e.g. the full-resolution
+// original, and encodes the result. The hands found in the working copy are reused.
+export type TryOnExportRequest = {
+  image?: ImageBitmap // The same photo as the last render, at any size; omit to export the last render's
+  manicures: HandManicures
+  nailShape?: NailShapeOptions
+  matchLighting?: boolean
+  adjustments?: HandNailAdjustments // In the pixels of the last render; scaled to `image`
+  watermark?: Omit<ExportWatermark, "logo"> & { logo?: ImageBitmap }
+  card?: ExportCard // Lays the photo out beside the designs worn
+  mimeType?: string // Defaults to PNG
+  quality?: number
+}
+
+export type TryOnWorkerRequest =
+  | { type: "init"; options: HandsOptions }
+  | { type: "set-mode"; mode: HandDetectorMode }
+  | { type: "register-designs"; designs: NailDesign[] } // Designs created on the page, e.g. from photos
+  | { type: "detect"; id: number; image: ImageBitmap; isMirrored?: boolean }
+  | ({ type: "render"; id: number } & TryOnRenderRequest)
+  | ({ type: "render-grid"; id: number } & TryOnGridRequest)
+  | ({ type: "export"; id: number } & TryOnExportRequest)
+  | { type: "ingest"; id: number; file: Blob } // Turns an uploaded photo upright and scales it to a working size
+
+export type TryOnStage = "checking" | "detecting" | "compositing"
+
+// Nail masks stay in the worker; they are only needed there for compositing
+export type TryOnPlacement = Omit<NailPlacement, "mask">
+
+export type TryOnRenderResult = {
+  image: ImageBitmap
+  hands: DetectedHand[]
+  placements: TryOnPlacement[]
+  issues?: PhotoIssue[] // What could make a new photo work better; only set when the request had an image
+}
+
+export type TryOnThumbnail = {
+  designId: string
+  image: ImageBitmap
+}
+
+export type TryOnWorkerResponse =
+  | { type: "load-progress"; progress: LoadProgress }
+  | { type: "ready" }
+  | { type: "progress"; id: number; stage: TryOnStage }
+  | { type: "detected"; id: number; hands: DetectedHand[] }
+  | ({ type: "rendered"; id: number } & TryOnRenderResult)
+  | { type: "grid-rendered"; id: number; thumbnails: TryOnThumbnail[] }
+  | { type: "exported"; id: number; blob: Blob }
+  | ({ type: "ingested"; id: number } & IngestedPhoto)
+  | { type: "error"; id?: number; message: string } // Without an id, loading failed
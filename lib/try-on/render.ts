@@ -0,0 +1,193 @@
+import { getDesign as getRegisteredDesign, getDesignTexture } from "@/lib/designs/registry"
+import type { NailDesign, NailShapeOptions } from "@/lib/designs/schema"
+import { getDesignShape, NATURAL_NAIL } from "@/lib/designs/shape"
+import type { DetectedHand } from "@/lib/handedness"
+import { estimateSceneLighting } from "@/lib/color-matching"
+import { estimateLightDirection, type LightDirection } from "@/lib/light-direction"
+import { createUniformHandManicures, type HandManicures } from "@/lib/manicure"
+import { scaleNailAdjustments, type HandNailAdjustments } from "@/lib/nail-adjustments"
+import {
+  drawMaskDebugOverlay,
+  drawNailOverlays,
+  type NailDesignLayer,
+  type NailPlacement,
+} from "@/lib/nail-overlay"
+import {
+  createCanvas,
+  getContext2D,
+  getImageSize,
+  type TryOnCanvas,
+  type TryOnContext,
+  type TryOnImageSource,
+} from "@/lib/try-on/canvas"
+
+export type TryOnOverlayOptions = {
+  // Pixels of the photo being decorated, used to clip polish to segmented nail masks
+  source?: ImageData
+  // Looks up the texture for a design ID, rendered for a nail shape. Defaults to the design registry.
+  getTexture?: (designId: string, nailShape: NailShapeOptions) => TryOnImageSource | null | undefined
+  // Looks up a design's finish and suggested shape. Defaults to the design registry.
+  getDesign?: (designId: string) => NailDesign | undefined
+  // Shape and length for every nail, instead of each design's own
+  nailShape?: NailShapeOptions
+  // Where the light comes from. Estimated from `source` when given, otherwise from above.
+  light?: LightDirection
+  // Match the polish to the photo's white balance and exposure. Needs `source`; defaults to true.
+  matchLighting?: boolean
+  // Manual corrections to nails misplaced by hand detection
+  adjustments?: HandNailAdjustments
+}
+
+export type TryOnOptions = {
+  canvas?: TryOnCanvas // Draw into this canvas instead of a new one; it is resized to the image
+  segment?: boolean // Clip polish to the nail plates. Too slow for video frames, so those skip it.
+  showMasks?: boolean // Tint the nail masks and outline their quads for debugging
+  getTexture?: TryOnOverlayOptions["getTexture"]
+  getDesign?: TryOnOverlayOptions["getDesign"]
+  nailShape?: NailShapeOptions
+  light?: LightDirection
+  matchLighting?: boolean
+  adjustments?: HandNailAdjustments
+}
+
+export type TryOnResult = {
+  canvas: TryOnCanvas
+  placements: NailPlacement[]
+}
+
+export type DesignThumbnailOptions = Omit<TryOnOverlayOptions, "source"> & {
+  size: number // Longest side of each thumbnail, in pixels
+}
+
+export type DesignThumbnail = {
+  designId: string
+  canvas: TryOnCanvas
+}
+
+/**
+ * Draws each hand's manicure onto `ctx`, which should already contain the image the
+ * hands were detected in. Returns where every nail was drawn.
+ */
+export function drawTryOnOverlays(
+  ctx: TryOnContext,
+  hands: DetectedHand[],
+  manicures: HandManicures,
+  width: number,
+  height: number,
+  {
+    source,
+    getTexture = getDesignTexture,
+    getDesign = getRegisteredDesign,
+    nailShape,
+    light,
+    matchLighting = true,
+    adjustments,
+  }: TryOnOverlayOptions = {},
+): NailPlacement[] {
+  const lightDirection = light ?? (source ? estimateLightDirection(source, hands) : undefined)
+  const lighting = source && matchLighting ? estimateSceneLighting(source) : undefined
+
+  const getLayer = (designId: string): NailDesignLayer | null => {
+    const design = getDesign(designId)
+    const shape = nailShape ?? (design ? getDesignShape(design) : NATURAL_NAIL)
+    const texture = getTexture(designId, shape)
+    return texture ? { texture, finish: design, nailShape: shape } : null
+  }
+
+  return hands.flatMap((hand) =>
+    drawNailOverlays(ctx, hand, width, height, (finger) => getLayer(manicures[hand.side][finger]), {
+      source,
+      light: lightDirection,
+      lighting,
+      adjustments: adjustments?.[hand.side],
+    }),
+  )
+}
+
+/**
+ * Renders a manicure onto a photo with the hands already detected in it.
+ * Works anywhere a 2D canvas is available; see `setCanvasFactory` for Node.
+ */
+export function renderTryOn(
+  image: TryOnImageSource,
+  hands: DetectedHand[],
+  manicures: HandManicures,
+  {
+    canvas,
+    segment = true,
+    showMasks = false,
+    getTexture,
+    getDesign,
+    nailShape,
+    light,
+    matchLighting,
+    adjustments,
+  }: TryOnOptions = {},
+): TryOnResult {
+  const { width, height } = getImageSize(image)
+  const target = canvas ?? createCanvas(width, height)
+  target.width = width
+  target.height = height
+
+  const ctx = getContext2D(target)
+  ctx.clearRect(0, 0, width, height)
+  ctx.drawImage(image, 0, 0, width, height)
+
+  if (hands.length === 0) {
+    return { canvas: target, placements: [] }
+  }
+
+  // Segment against the untouched photo so earlier nails don't affect later masks
+  const source = segment ? ctx.getImageData(0, 0, width, height) : undefined
+  const placements = drawTryOnOverlays(ctx, hands, manicures, width, height, {
+    source,
+    getTexture,
+    getDesign,
+    nailShape,
+    light,
+    matchLighting,
+    adjustments,
+  })
+  if (showMasks) {
+    drawMaskDebugOverlay(ctx, placements)
+  }
+
+  return { canvas: target, placements }
+}
+
+/**
+ * Renders each design on every nail of a photo, as thumbnails for comparing designs.
+ * The photo is scaled down and segmented once, and the hands' normalized landmarks
+ * apply at any size, so each design only costs its overlays.
+ */
+export function renderDesignThumbnails(
+  image: TryOnImageSource,
+  hands: DetectedHand[],
+  designIds: string[],
+  { size, light, adjustments, ...options }: DesignThumbnailOptions,
+): DesignThumbnail[] {
+  const { width, height } = getImageSize(image)
+  const scale = Math.min(1, size / Math.max(width, height))
+  const thumbnailWidth = Math.max(1, Math.round(width * scale))
+  const thumbnailHeight = Math.max(1, Math.round(height * scale))
+
+  const photo = createCanvas(thumbnailWidth, thumbnailHeight)
+  const photoCtx = getContext2D(photo)
+  photoCtx.drawImage(image, 0, 0, thumbnailWidth, thumbnailHeight)
+  const source = hands.length > 0 ? photoCtx.getImageData(0, 0, thumbnailWidth, thumbnailHeight) : undefined
+  const lightDirection = light ?? (source ? estimateLightDirection(source, hands) : undefined)
+  const thumbnailAdjustments = adjustments && scaleNailAdjustments(adjustments, scale)
+
+  return designIds.map((designId) => {
+    const canvas = createCanvas(thumbnailWidth, thumbnailHeight)
+    const ctx = getContext2D(canvas)
+    ctx.drawImage(photo, 0, 0)
+    drawTryOnOverlays(ctx, hands, createUniformHandManicures(designId), thumbnailWidth, thumbnailHeight, {
+      ...options,
+      source,
+      light: lightDirection,
+      adjustments: thumbnailAdjustments,
+    })
+    return { designId, canvas }
+  })
+}
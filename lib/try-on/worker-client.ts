@@ -0,0 +1,179 @@
+import type { Options as HandsOptions } from "@mediapipe/hands"
+import type { NailDesign } from "@/lib/designs/schema"
+import type { HandDetector } from "@/lib/hand-detection/types"
+import type { LoadProgress } from "@/lib/mediapipe-loader"
+import type { IngestedPhoto } from "@/lib/photo-ingest"
+import type {
+  TryOnExportRequest,
+  TryOnGridRequest,
+  TryOnRenderRequest,
+  TryOnRenderResult,
+  TryOnStage,
+  TryOnThumbnail,
+  TryOnWorkerRequest,
+  TryOnWorkerResponse,
+} from "@/lib/try-on/protocol"
+
+export type TryOnWorkerClient = {
+  ready: Promise<void> // Resolves once MediaPipe has loaded inside the worker
+  // Detects hands in the worker; each frame is copied to an ImageBitmap and transferred
+  detector: HandDetector
+  render: (request: TryOnRenderRequest, onStage?: (stage: TryOnStage) => void) => Promise<TryOnRenderResult>
+  // Renders designs on the last rendered photo, reusing the hands found in it
+  renderGrid: (request: TryOnGridRequest) => Promise<TryOnThumbnail[]>
+  // Renders the last photo's manicure on another copy of the photo, usually the full-size original
+  exportImage: (request: TryOnExportRequest) => Promise<Blob>
+  // Decodes, turns upright and scales down an uploaded photo; see `ingestPhoto`
+  ingestPhoto: (file: Blob) => Promise<IngestedPhoto>
+  // Makes designs registered on the page available to renders that follow
+  registerDesigns: (designs: NailDesign[]) => void
+  terminate: () => void
+}
+
+export type TryOnWorkerClientOptions = {
+  options: HandsOptions
+  onLoadProgress?: (progress: LoadProgress) => void
+}
+
+type PendingRequest = {
+  resolve: (response: TryOnWorkerResponse) => void
+  reject: (err: Error) => void
+  onStage?: (stage: TryOnStage) => void
+}
+
+function unexpectedResponse(response: TryOnWorkerResponse): Error {
+  return new Error(`Unexpected "${response.type}" response from the try-on worker`)
+}
+
+/**
+ * Starts the try-on worker and loads MediaPipe Hands inside it.
+ */
+export function createTryOnWorkerClient({ options, onLoadProgress }: TryOnWorkerClientOptions): TryOnWorkerClient {
+  const worker = new Worker(new URL("./worker.ts", import.meta.url))
+  const pending = new Map<number, PendingRequest>()
+  let nextId = 1
+  let isReady = false
+  let isTerminated = false
+
+  let resolveReady: () => void = () => undefined
+  let rejectReady: (err: Error) => void = () => undefined
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve
+    rejectReady = reject
+  })
+
+  const rejectAll = (err: Error) => {
+    pending.forEach((request) => request.reject(err))
+    pending.clear()
+  }
+
+  worker.onmessage = (event: MessageEvent<TryOnWorkerResponse>) => {
+    const response = event.data
+    switch (response.type) {
+      case "load-progress":
+        onLoadProgress?.(response.progress)
+        return
+      case "ready":
+        isReady = true
+        resolveReady()
+        return
+      case "progress":
+        pending.get(response.id)?.onStage?.(response.stage)
+        return
+      case "error":
+        if (response.id === undefined) {
+          if (isReady) {
+            console.error("Try-on worker error:", response.message)
+          } else {
+            rejectReady(new Error(response.message))
+          }
+          return
+        }
+        pending.get(response.id)?.reject(new Error(response.message))
+        pending.delete(response.id)
+        return
+      default:
+        pending.get(response.id)?.resolve(response)
+        pending.delete(response.id)
+    }
+  }
+
+  worker.onerror = (event) => {
+    const err = new Error(event.message || "The try-on worker crashed")
+    rejectReady(err)
+    rejectAll(err)
+  }
+
+  const request = (
+    message: TryOnWorkerRequest & { id: number },
+    transfer: Transferable[],
+    onStage?: PendingRequest["onStage"],
+  ) =>
+    new Promise<TryOnWorkerResponse>((resolve, reject) => {
+      if (isTerminated) {
+        reject(new Error("The try-on worker has been terminated"))
+        return
+      }
+      pending.set(message.id, { resolve, reject, onStage })
+      worker.postMessage(message, transfer)
+    })
+
+  const terminate = () => {
+    if (isTerminated) return
+    isTerminated = true
+    worker.terminate()
+    const err = new Error("The try-on worker has been terminated")
+    rejectReady(err)
+    rejectAll(err)
+  }
+
+  const detector: HandDetector = {
+    detect: async (image, { isMirrored } = {}) => {
+      const bitmap = await createImageBitmap(image)
+      const response = await request({ type: "detect", id: nextId++, image: bitmap, isMirrored }, [bitmap])
+      if (response.type !== "detected") throw unexpectedResponse(response)
+      return response.hands
+    },
+    setMode: (mode) => {
+      worker.postMessage({ type: "set-mode", mode } satisfies TryOnWorkerRequest)
+    },
+    close: async () => terminate(),
+  }
+
+  worker.postMessage({ type: "init", options } satisfies TryOnWorkerRequest)
+
+  return {
+    ready,
+    detector,
+    render: async (renderRequest, onStage) => {
+      const transfer = renderRequest.image ? [renderRequest.image] : []
+      const response = await request({ type: "render", id: nextId++, ...renderRequest }, transfer, onStage)
+      if (response.type !== "rendered") throw unexpectedResponse(response)
+      const { image, hands, placements, issues } = response
+      return { image, hands, placements, issues }
+    },
+    renderGrid: async (gridRequest) => {
+      const response = await request({ type: "render-grid", id: nextId++, ...gridRequest }, [])
+      if (response.type !== "grid-rendered") throw unexpectedResponse(response)
+      return response.thumbnails
+    },
+    exportImage: async (exportRequest) => {
+      const transfer = [exportRequest.image, exportRequest.watermark?.logo].filter(
+        (image): image is ImageBitmap => !!image,
+      )
+      const response = await request({ type: "export", id: nextId++, ...exportRequest }, transfer)
+      if (response.type !== "exported") throw unexpectedResponse(response)
+      return response.blob
+    },
+    ingestPhoto: async (file) => {
+      const response = await request({ type: "ingest", id: nextId++, file }, [])
+      if (response.type !== "ingested") throw unexpectedResponse(response)
+      const { dataUrl, width, height, original, originalWidth, originalHeight } = response
+      return { dataUrl, width, height, original, originalWidth, originalHeight }
+    },
+    registerDesigns: (designs) => {
+      worker.postMessage({ type: "register-designs", designs } satisfies TryOnWorkerRequest)
+    },
+    terminate,
+  }
+}
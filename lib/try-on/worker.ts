@@ -0,0 +1,162 @@
+import { registerCustomDesign } from "@/lib/designs/registry"
+import { drawWatermark, renderBrandedCard } from "@/lib/export-image"
+import { loadMediaPipeHandDetector } from "@/lib/hand-detection/mediapipe"
+import type { HandDetector } from "@/lib/hand-detection/types"
+import type { DetectedHand } from "@/lib/handedness"
+import { ingestPhoto } from "@/lib/photo-ingest"
+import { getHandIssues, getImageIssues, measureImageQuality, type PhotoIssue } from "@/lib/photo-quality"
+import type { TryOnWorkerRequest, TryOnWorkerResponse } from "@/lib/try-on/protocol"
+import { scaleNailAdjustments } from "@/lib/nail-adjustments"
+import { canvasToBlob, getContext2D } from "@/lib/try-on/canvas"
+import { renderDesignThumbnails, renderTryOn } from "@/lib/try-on/render"
+
+// Runs hand detection and compositing off the main thread. Start it with
+// createTryOnWorkerClient rather than directly.
+
+let detector: Promise<HandDetector> | null = null
+// The last photo and its hands, so manicure edits only need to send the manicure
+let currentImage: ImageBitmap | null = null
+let currentHands: DetectedHand[] = []
+// Requests run one at a time, in the order they arrive
+let queue: Promise<void> = Promise.resolve()
+
+function post(message: TryOnWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+function getDetector(): Promise<HandDetector> {
+  if (!detector) throw new Error("The try-on worker has not been initialized")
+  return detector
+}
+
+async function handleRequest(request: TryOnWorkerRequest) {
+  switch (request.type) {
+    case "init": {
+      detector = loadMediaPipeHandDetector({
+        options: request.options,
+        onProgress: (progress) => post({ type: "load-progress", progress }),
+      })
+      await detector
+      post({ type: "ready" })
+      break
+    }
+    case "set-mode": {
+      ;(await getDetector()).setMode(request.mode)
+      break
+    }
+    case "register-designs": {
+      await Promise.all(request.designs.map((design) => registerCustomDesign(design)))
+      break
+    }
+    case "detect": {
+      try {
+        const hands = await (await getDetector()).detect(request.image, { isMirrored: request.isMirrored })
+        post({ type: "detected", id: request.id, hands })
+      } finally {
+        request.image.close()
+      }
+      break
+    }
+    case "render": {
+      let issues: PhotoIssue[] | undefined
+      if (request.image) {
+        currentImage?.close()
+        currentImage = request.image
+        currentHands = request.hands ?? []
+        post({ type: "progress", id: request.id, stage: "checking" })
+        const imageIssues = getImageIssues(measureImageQuality(request.image))
+        if (!request.hands) {
+          post({ type: "progress", id: request.id, stage: "detecting" })
+          currentHands = await (await getDetector()).detect(request.image, { isMirrored: request.isMirrored })
+        }
+        issues = [...imageIssues, ...getHandIssues(currentHands, request.image.width, request.image.height)]
+      } else if (request.hands) {
+        currentHands = request.hands
+      }
+      if (!currentImage) throw new Error("No photo to render")
+
+      post({ type: "progress", id: request.id, stage: "compositing" })
+      const { canvas, placements } = renderTryOn(currentImage, currentHands, request.manicures, {
+        nailShape: request.nailShape,
+        matchLighting: request.matchLighting,
+        adjustments: request.adjustments,
+        showMasks: request.showMasks,
+      })
+      const image = (canvas as OffscreenCanvas).transferToImageBitmap()
+      post(
+        {
+          type: "rendered",
+          id: request.id,
+          image,
+          hands: currentHands,
+          placements: placements.map(({ mask: _mask, ...placement }) => placement),
+          issues,
+        },
+        [image],
+      )
+      break
+    }
+    case "render-grid": {
+      if (!currentImage) throw new Error("No photo to render")
+      const thumbnails = renderDesignThumbnails(currentImage, currentHands, request.designIds, {
+        size: request.size,
+        nailShape: request.nailShape,
+        matchLighting: request.matchLighting,
+        adjustments: request.adjustments,
+      }).map(({ designId, canvas }) => ({
+        designId,
+        image: (canvas as OffscreenCanvas).transferToImageBitmap(),
+      }))
+      post({ type: "grid-rendered", id: request.id, thumbnails }, thumbnails.map(({ image }) => image))
+      break
+    }
+    case "export": {
+      try {
+        if (!currentImage) throw new Error("No photo to export")
+        const image = request.image ?? currentImage
+        const scale = image.width / currentImage.width
+        const { canvas } = renderTryOn(image, currentHands, request.manicures, {
+          nailShape: request.nailShape,
+          matchLighting: request.matchLighting,
+          adjustments: request.adjustments && scaleNailAdjustments(request.adjustments, scale),
+        })
+        if (request.watermark) {
+          drawWatermark(getContext2D(canvas), canvas.width, canvas.height, request.watermark)
+        }
+        const output = request.card ? renderBrandedCard(canvas, request.card) : canvas
+        const blob = await canvasToBlob(output, request.mimeType, request.quality)
+        post({ type: "exported", id: request.id, blob })
+      } finally {
+        request.image?.close()
+        request.watermark?.logo?.close()
+      }
+      break
+    }
+    case "ingest": {
+      const photo = await ingestPhoto(request.file)
+      post({ type: "ingested", id: request.id, ...photo })
+      break
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<TryOnWorkerRequest>) => {
+  const request = event.data
+  const handle = () =>
+    handleRequest(request).catch((err: unknown) => {
+      console.error(`Try-on worker failed to handle "${request.type}":`, err)
+      if (request.type === "init") detector = null
+      post({
+        type: "error",
+        id: "id" in request ? request.id : undefined,
+        message: err instanceof Error ? err.message : String(err),
+      })
+    })
+  // Ingesting leaves the current photo alone, so a new photo is prepared while the
+  // model is still loading instead of waiting behind it
+  if (request.type === "ingest") {
+    handle()
+  } else {
+    queue = queue.then(handle)
+  }
+}
@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Native canvas bindings for the try-on API route
+  serverExternalPackages: ["@napi-rs/canvas"],
 }
 
 export default nextConfig
\ No newline at end of file
@@ -0,0 +1,108 @@
+// Service worker that keeps the app and its self-hosted MediaPipe assets available offline.
+// Bump CACHE_VERSION whenever the caching strategy or the MediaPipe package changes.
+const CACHE_VERSION = "v2"
+const APP_CACHE = `nail-try-on-app-${CACHE_VERSION}`
+const ASSET_CACHE = `nail-try-on-assets-${CACHE_VERSION}`
+
+const APP_SHELL = ["/", "/images/colorful-french-tips.jpg"]
+// Written by scripts/generate-sw-manifest.mjs after each build. Missing in development.
+const MANIFEST_URL = "/sw-manifest.json"
+
+// Caches the build output and MediaPipe files listed in the manifest, skipping any already
+// cached, and drops build output from earlier deploys. Cached assets never change, so
+// deploys only download what is new.
+async function precacheAssets() {
+  const response = await fetch(MANIFEST_URL, { cache: "no-store" })
+  if (!response.ok) return
+  const { assets } = await response.json()
+
+  const cache = await caches.open(ASSET_CACHE)
+  const cached = new Set((await cache.keys()).map((request) => new URL(request.url).pathname))
+  await cache.addAll(assets.filter((asset) => !cached.has(asset)))
+
+  const current = new Set(assets)
+  await Promise.all(
+    Array.from(cached)
+      .filter((asset) => asset.startsWith("/_next/static/") && !current.has(asset))
+      .map((asset) => cache.delete(asset)),
+  )
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(APP_CACHE)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => precacheAssets())
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("nail-try-on-") && key !== APP_CACHE && key !== ASSET_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+// sw.js rarely changes, so new deploys don't reinstall it. Pages ask for their build's
+// assets to be cached each time they load instead.
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "precache") {
+    event.waitUntil(
+      precacheAssets().catch((err) => {
+        console.error("Precaching assets failed:", err)
+      }),
+    )
+  }
+})
+
+// Model files and hashed build output never change under the same URL
+function isImmutableAsset(url) {
+  return url.pathname.startsWith("/mediapipe/") || url.pathname.startsWith("/_next/static/")
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(APP_CACHE)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (err) {
+    const cached = (await caches.match(request)) || (request.mode === "navigate" && (await caches.match("/")))
+    if (cached) return cached
+    throw err
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return
+
+  event.respondWith(isImmutableAsset(url) ? cacheFirst(request) : networkFirst(request))
+})
@@ -0,0 +1,175 @@
+// Runs the try-on pipeline in Node, with the mock hand detector standing in for MediaPipe:
+// fixture landmarks go in, and polish has to come out on the nails they describe. Also checks
+// that POST /api/try-on turns away images too large to decode before decoding them.
+// Run with `pnpm check:pipeline`.
+import assert from "node:assert/strict"
+import { createCanvas as createNodeCanvas } from "@napi-rs/canvas"
+import { POST as postTryOn } from "@/app/api/try-on/route"
+import { HAND_LANDMARK_FIXTURES } from "@/lib/hand-detection/fixtures"
+import { createMockHandDetector } from "@/lib/hand-detection/mock"
+import { FINGERS, createUniformHandManicures } from "@/lib/manicure"
+import type { TryOnApiError } from "@/lib/try-on/api"
+import { createCanvas, getContext2D } from "@/lib/try-on/canvas"
+import { readImageSize } from "@/lib/try-on/image-size"
+import { encodePng, installNodeCanvas } from "@/lib/try-on/node-canvas"
+import { renderTryOn } from "@/lib/try-on/render"
+
+const PHOTO_WIDTH = 640
+const PHOTO_HEIGHT = 480
+const SKIN = [224, 172, 138]
+const DESIGN_ID = "crimson-gloss"
+
+installNodeCanvas()
+
+// A flat skin-coloured photo, so any change to a pixel is the overlay's doing
+const photo = createCanvas(PHOTO_WIDTH, PHOTO_HEIGHT)
+const photoCtx = getContext2D(photo)
+photoCtx.fillStyle = `rgb(${SKIN.join(",")})`
+photoCtx.fillRect(0, 0, PHOTO_WIDTH, PHOTO_HEIGHT)
+
+let fixtureName = ""
+const detector = createMockHandDetector(HAND_LANDMARK_FIXTURES, { getFixtureKey: () => fixtureName })
+
+async function tryOn(name: string) {
+  fixtureName = name
+  const hands = await detector.detect(photo)
+  const result = renderTryOn(photo, hands, createUniformHandManicures(DESIGN_ID), { segment: false })
+  const pixels = getContext2D(result.canvas).getImageData(0, 0, PHOTO_WIDTH, PHOTO_HEIGHT).data
+  const getPixel = (x: number, y: number) => {
+    const offset = (Math.round(y) * PHOTO_WIDTH + Math.round(x)) * 4
+    return Array.from(pixels.slice(offset, offset + 3))
+  }
+  return { hands, ...result, getPixel }
+}
+
+// A PNG that is only a signature and an IHDR chunk: it claims a size but can't be decoded
+function createPngHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header)
+  header.writeUInt32BE(13, 8)
+  header.write("IHDR", 12, "latin1")
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  header.set([8, 6, 0, 0, 0], 24) // 8-bit RGBA
+  return header
+}
+
+// A WebP container holding the start of one chunk
+function createWebpHeader(chunk: string, payload: number[]): Buffer {
+  return Buffer.concat([
+    Buffer.from("RIFF\0\0\0\0WEBP", "latin1"),
+    Buffer.from(chunk, "latin1"),
+    Buffer.alloc(4),
+    Buffer.from(payload),
+  ])
+}
+
+async function postImage(image: Buffer, design: string) {
+  const form = new FormData()
+  form.set("image", new Blob([new Uint8Array(image)], { type: "image/png" }))
+  form.set("hands", JSON.stringify(await tryOn("back-of-right-hand").then(({ hands }) => hands)))
+  form.set("design", design)
+  const response = await postTryOn(new Request("http://localhost/api/try-on", { method: "POST", body: form }))
+  return { status: response.status, body: (await response.json()) as TryOnApiError }
+}
+
+function isSkin(pixel: number[]): boolean {
+  return pixel.every((channel, i) => Math.abs(channel - SKIN[i]) <= 2)
+}
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "polishes every nail of one hand",
+    async () => {
+      const { hands, canvas, placements, getPixel } = await tryOn("back-of-right-hand")
+      assert.deepEqual(hands.map((hand) => hand.side), ["right"])
+      assert.equal(canvas.width, PHOTO_WIDTH)
+      assert.equal(canvas.height, PHOTO_HEIGHT)
+      assert.deepEqual(placements.map((placement) => placement.finger), [...FINGERS])
+      placements.forEach((placement) => {
+        assert.ok(placement.width > 0 && placement.height > 0, `${placement.finger} nail has no size`)
+        const [red, green, blue] = getPixel(placement.centerX, placement.centerY)
+        assert.ok(red > green + 60 && red > blue + 60, `${placement.finger} nail is not crimson`)
+      })
+      assert.ok(isSkin(getPixel(5, 5)), "polish was drawn outside the nails")
+    },
+  ],
+  [
+    "polishes both hands",
+    async () => {
+      const { hands, placements } = await tryOn("both-hands")
+      assert.deepEqual(hands.map((hand) => hand.side).sort(), ["left", "right"])
+      assert.equal(placements.filter((placement) => placement.side === "left").length, FINGERS.length)
+      assert.equal(placements.filter((placement) => placement.side === "right").length, FINGERS.length)
+    },
+  ],
+  [
+    "leaves a photo without hands untouched",
+    async () => {
+      const { hands, placements, getPixel } = await tryOn("no-hands")
+      assert.equal(hands.length, 0)
+      assert.equal(placements.length, 0)
+      assert.ok(isSkin(getPixel(PHOTO_WIDTH / 2, PHOTO_HEIGHT / 2)))
+    },
+  ],
+  [
+    "rejects images without a fixture",
+    async () => {
+      await assert.rejects(tryOn("unknown"), /No hand landmark fixture for "unknown"/)
+    },
+  ],
+  [
+    "reads image sizes from file headers",
+    async () => {
+      const image = createNodeCanvas(301, 157)
+      image.getContext("2d").fillRect(0, 0, 10, 10)
+      const size = { width: 301, height: 157 }
+      assert.deepEqual(readImageSize(image.toBuffer("image/png")), size)
+      assert.deepEqual(readImageSize(image.toBuffer("image/jpeg", 80)), size)
+      assert.deepEqual(readImageSize(image.toBuffer("image/webp", 80)), size)
+      // Lossy and lossless WebP, which @napi-rs/canvas doesn't write
+      assert.deepEqual(readImageSize(createWebpHeader("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, 45, 1, 157, 0])), size)
+      const lossless = Buffer.alloc(4)
+      lossless.writeUInt32LE(300 | (156 << 14))
+      assert.deepEqual(readImageSize(createWebpHeader("VP8L", [0x2f, ...lossless])), size)
+      assert.equal(readImageSize(Buffer.from("GIF89a")), null)
+      assert.equal(readImageSize(createPngHeader(1, 1).subarray(0, 20)), null)
+    },
+  ],
+  [
+    "rejects oversized images before decoding them",
+    async () => {
+      // Header-only files fail to decode, so a 413 rather than a 415 means decoding never started
+      const undecodable = await postImage(createPngHeader(640, 480), "crimson-gloss")
+      assert.equal(undecodable.status, 415)
+
+      const image = await postImage(createPngHeader(8000, 8000), "crimson-gloss")
+      assert.equal(image.status, 413, image.body.error)
+      assert.match(image.body.error, /megapixels/)
+
+      const texture = `data:image/png;base64,${createPngHeader(8000, 8000).toString("base64")}`
+      const design = JSON.stringify({ id: "custom-huge", name: "Huge", baseColor: "#000000", texture })
+      const textured = await postImage(encodePng(photo), design)
+      assert.equal(textured.status, 413, textured.body.error)
+      assert.match(textured.body.error, /texture/)
+    },
+  ],
+]
+
+async function main() {
+  let failures = 0
+  for (const [name, check] of checks) {
+    try {
+      await check()
+      console.log(`ok - ${name}`)
+    } catch (err) {
+      failures++
+      console.error(`not ok - ${name}`)
+      console.error(err)
+    }
+  }
+  await detector.close()
+  process.exitCode = failures > 0 ? 1 : 0
+}
+
+main()
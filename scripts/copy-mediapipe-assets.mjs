@@ -0,0 +1,26 @@
+// Copies the MediaPipe Hands model and WASM files from the installed package into
+// public/ so the app serves them itself instead of pulling them from a CDN.
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const source = join(root, "node_modules", "@mediapipe", "hands")
+const destination = join(root, "public", "mediapipe", "hands")
+
+// hands.js itself is bundled through the package import; everything it loads at runtime is copied
+const ASSET_PATTERN = /\.(binarypb|data|tflite|wasm)$|^hands_solution_.*\.js$/
+
+if (!existsSync(source)) {
+  console.warn("@mediapipe/hands is not installed, skipping asset copy")
+  process.exit(0)
+}
+
+mkdirSync(destination, { recursive: true })
+
+const files = readdirSync(source).filter((file) => ASSET_PATTERN.test(file))
+for (const file of files) {
+  copyFileSync(join(source, file), join(destination, file))
+}
+
+console.log(`Copied ${files.length} MediaPipe Hands assets to public/mediapipe/hands`)
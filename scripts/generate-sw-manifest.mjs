@@ -0,0 +1,40 @@
+// Lists the build output and the self-hosted MediaPipe files in public/sw-manifest.json, so
+// public/sw.js can cache everything the app needs offline when it installs, before the
+// page has asked for any of it. Runs after `next build`.
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs"
+import { dirname, join, relative, sep } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const buildDir = join(root, ".next")
+const publicDir = join(root, "public")
+
+function listFiles(dir) {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name)
+    return statSync(path).isDirectory() ? listFiles(path) : [path]
+  })
+}
+
+function toUrl(base, dir, file) {
+  return `${base}/${relative(dir, file).split(sep).map(encodeURIComponent).join("/")}`
+}
+
+if (!existsSync(join(buildDir, "BUILD_ID"))) {
+  console.warn("No Next.js build found, skipping the service worker manifest")
+  process.exit(0)
+}
+
+const staticDir = join(buildDir, "static")
+const mediapipeDir = join(publicDir, "mediapipe")
+const manifest = {
+  version: readFileSync(join(buildDir, "BUILD_ID"), "utf8").trim(),
+  assets: [
+    ...listFiles(staticDir).map((file) => toUrl("/_next/static", staticDir, file)),
+    ...listFiles(mediapipeDir).map((file) => toUrl("/mediapipe", mediapipeDir, file)),
+  ],
+}
+
+writeFileSync(join(publicDir, "sw-manifest.json"), JSON.stringify(manifest))
+console.log(`Listed ${manifest.assets.length} assets in public/sw-manifest.json`)